@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+// Rewrites cached itineraries and place enrichments in the current schema
+// through the admin API of a running server.
+//
+//   ADMIN_API_TOKEN=... npm run cache:migrate -- [--dry-run] [--url http://localhost:3000]
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const urlFlag = args.indexOf('--url');
+const baseUrl = urlFlag >= 0 ? args[urlFlag + 1] : process.env.CITYBREAKER_URL || 'http://localhost:3000';
+const token = process.env.ADMIN_API_TOKEN;
+
+if (!token) {
+  console.error('Set ADMIN_API_TOKEN to the admin token of the target server.');
+  process.exit(1);
+}
+
+const res = await fetch(new URL(`/api/admin/cache/migrate${dryRun ? '?dryRun=1' : ''}`, baseUrl), {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${token}` },
+});
+const body = await res.json().catch(() => ({}));
+if (!res.ok) {
+  console.error(`Migration failed (${res.status}):`, body.error ?? body, body.details ?? '');
+  process.exit(1);
+}
+
+console.log(`${body.dryRun ? 'Dry run against' : 'Migrated to'} itinerary v${body.versions.itinerary}, place v${body.versions.place}`);
+for (const r of body.reports) {
+  console.log(`  ${r.collection}: scanned ${r.scanned}, upgraded ${r.upgraded}, removed ${r.removed}, skipped ${r.skipped}`);
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+// Runs queued PDF jobs outside the Next.js server. Shares the cache store
+// settings (CACHE_BACKEND, CACHE_DIR) and credentials with the web app.
+// PDF_POOL_SIZE and PDF_PAGE_MAX_USES tune the Chromium page pool.
+//
+//   npm run pdf:worker             keep polling for jobs
+//   npm run pdf:worker -- --once   run what is due, then exit
+
+import { createJiti } from 'jiti';
+import { fileURLToPath } from 'node:url';
+
+const jiti = createJiti(import.meta.url, {
+  alias: { '@/': fileURLToPath(new URL('../src/', import.meta.url)) },
+});
+const { runPdfWorker } = await jiti.import('../src/lib/pdfWorker.ts');
+const { closePdfPool, pdfPoolMetrics } = await jiti.import('../src/lib/pdfBrowserPool.ts');
+
+const once = process.argv.includes('--once');
+const controller = new AbortController();
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.once(signal, () => {
+    console.log(`PDF: ${signal} received; stopping after the current job`);
+    controller.abort();
+  });
+}
+
+await runPdfWorker({ once, signal: controller.signal });
+console.log('PDF: Browser pool at exit', pdfPoolMetrics());
+await closePdfPool();
+process.exit(0);
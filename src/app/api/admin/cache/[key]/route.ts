@@ -0,0 +1,47 @@
+// app/api/admin/cache/[key]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { rejectUnlessAdmin } from '@/lib/adminAuth';
+import { getCacheStats, inspectCachedItinerary, purgeCachedItinerary } from '@/lib/firestoreCache';
+
+interface RouteContext {
+  params: Promise<{ key: string }>;
+}
+
+/** GET — the whole entry, `meta` included (prompt, raw model output, model), plus its counts. */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const rejected = await rejectUnlessAdmin(req);
+  if (rejected) return rejected;
+
+  const { key } = await params;
+  try {
+    const [entry, stats] = await Promise.all([inspectCachedItinerary(key), getCacheStats([key])]);
+    if (!entry) {
+      return NextResponse.json({ error: `No cache entry "${key}".` }, { status: 404 });
+    }
+    return NextResponse.json({ key, entry, stats: stats.get(key) });
+  } catch (err) {
+    const details = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ error: 'Failed to read cache entry.', details }, { status: 500 });
+  }
+}
+
+/** DELETE — purges the entry and the edits derived from it. */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const rejected = await rejectUnlessAdmin(req);
+  if (rejected) return rejected;
+
+  const { key } = await params;
+  try {
+    const purged = await purgeCachedItinerary(key);
+    if (!purged.length) {
+      return NextResponse.json({ error: `No cache entry "${key}".` }, { status: 404 });
+    }
+    return NextResponse.json({ purged });
+  } catch (err) {
+    const details = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ error: 'Failed to purge cache entry.', details }, { status: 500 });
+  }
+}
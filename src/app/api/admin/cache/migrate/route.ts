@@ -0,0 +1,27 @@
+// app/api/admin/cache/migrate/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { rejectUnlessAdmin } from '@/lib/adminAuth';
+import { migrateCacheDocuments } from '@/lib/firestoreCache';
+import { ITINERARY_CACHE_VERSION, PLACE_CACHE_VERSION } from '@/lib/cacheSchema';
+
+/** POST ?dryRun=1 — rewrites stored documents in the current cache schema. */
+export async function POST(req: NextRequest) {
+  const rejected = await rejectUnlessAdmin(req);
+  if (rejected) return rejected;
+
+  const dryRun = ['1', 'true'].includes(req.nextUrl.searchParams.get('dryRun') ?? '');
+  try {
+    const reports = await migrateCacheDocuments({ dryRun });
+    return NextResponse.json({
+      dryRun,
+      versions: { itinerary: ITINERARY_CACHE_VERSION, place: PLACE_CACHE_VERSION },
+      reports,
+    });
+  } catch (err) {
+    const details = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ error: 'Cache migration failed.', details }, { status: 500 });
+  }
+}
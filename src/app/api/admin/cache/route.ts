@@ -0,0 +1,61 @@
+// app/api/admin/cache/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { rejectUnlessAdmin } from '@/lib/adminAuth';
+import { listCachedItineraries, purgeCachedCity, type ItineraryCacheFilter } from '@/lib/firestoreCache';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+/**
+ * GET ?city=&days=&signatureHash=&variant=&limit=&cursor= — a page of entries
+ * with their hit/miss counts; pass `nextCursor` back as `cursor` for the next.
+ */
+export async function GET(req: NextRequest) {
+  const rejected = await rejectUnlessAdmin(req);
+  if (rejected) return rejected;
+
+  const params = req.nextUrl.searchParams;
+  const filter: ItineraryCacheFilter = {
+    city: params.get('city') || undefined,
+    signatureHash: params.get('signatureHash') || undefined,
+    variant: params.get('variant') || undefined,
+  };
+  if (params.has('days')) {
+    const days = Number(params.get('days'));
+    if (!Number.isInteger(days) || days < 1) {
+      return NextResponse.json({ error: '"days" must be a positive integer.' }, { status: 400 });
+    }
+    filter.days = days;
+  }
+  const limit = Math.min(Number(params.get('limit')) || DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+  const cursor = params.get('cursor') || undefined;
+
+  try {
+    const { entries, nextCursor } = await listCachedItineraries(filter, limit, cursor);
+    return NextResponse.json({ entries, count: entries.length, limit, nextCursor });
+  } catch (err) {
+    const details = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ error: 'Failed to list cache entries.', details }, { status: 500 });
+  }
+}
+
+/** DELETE ?city= — purges every entry for the city. A city is required. */
+export async function DELETE(req: NextRequest) {
+  const rejected = await rejectUnlessAdmin(req);
+  if (rejected) return rejected;
+
+  const city = req.nextUrl.searchParams.get('city')?.trim();
+  if (!city) {
+    return NextResponse.json({ error: 'A "city" is required; purge single entries by key.' }, { status: 400 });
+  }
+  try {
+    const purged = await purgeCachedCity(city);
+    return NextResponse.json({ city, purged });
+  } catch (err) {
+    const details = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ error: 'Failed to purge cache entries.', details }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/admin/pdf-pool/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { rejectUnlessAdmin } from '@/lib/adminAuth';
+import { pdfPoolMetrics } from '@/lib/pdfBrowserPool';
+
+/**
+ * GET — this server's Chromium pool: renders, failures and average render
+ * time. Jobs only render here with PDF_INLINE_WORKER=1; standalone workers
+ * log the same numbers every minute.
+ */
+export async function GET(req: NextRequest) {
+  const rejected = await rejectUnlessAdmin(req);
+  if (rejected) return rejected;
+  return NextResponse.json(pdfPoolMetrics());
+}
@@ -0,0 +1,150 @@
+// app/api/gemini-recommendations/edit/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+
+import {
+  getCachedItineraryByKey,
+  isItineraryServable,
+  storeDerivedItinerary,
+  derivedItineraryKey,
+  type EnrichedPlace,
+  type ItineraryEdit,
+} from '@/lib/firestoreCache';
+import {
+  getApiKeys,
+  responseFromCache,
+  alternativePlaces,
+  pickAlternativePlace,
+  regenerateDay,
+  swapActivity,
+  GEMINI_MODEL,
+  type ItineraryDay,
+  type EditedDay,
+} from '@/lib/itineraryGenerator';
+import { ITINERARY_CACHE_VERSION } from '@/lib/cacheSchema';
+import { parseTravellerProfile, DEFAULT_TRAVELLER_PROFILE } from '@/lib/travellerProfile';
+
+// --- Types ---
+interface RequestBody {
+  cacheKey?: string;      // itinerary being edited: a generated entry or an earlier edit
+  action?: 'regenerate-day' | 'swap-activity';
+  dayIndex?: number;
+  activityIndex?: number; // swap-activity only
+  placeName?: string;     // swap-activity only; nearest unused place when omitted
+  cityName?: string;      // display name for the prompt; defaults to the cached city
+}
+
+interface EditResponse {
+  cacheKey: string;
+  derivedFrom: string;
+  dayIndex: number;
+  day: ItineraryDay;
+  itinerary: ItineraryDay[];
+  places: EnrichedPlace[];
+}
+
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+// --- Main API Handler ---
+export async function POST(req: NextRequest) {
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid or empty JSON body.' }, { status: 400 });
+  }
+
+  const { cacheKey, action, dayIndex, activityIndex, placeName, cityName } = body;
+  if (typeof cacheKey !== 'string' || !cacheKey.trim() || cacheKey.includes('/')) {
+    return NextResponse.json({ error: 'A valid "cacheKey" is required.' }, { status: 400 });
+  }
+  if (action !== 'regenerate-day' && action !== 'swap-activity') {
+    return NextResponse.json({ error: '"action" must be "regenerate-day" or "swap-activity".' }, { status: 400 });
+  }
+
+  try {
+    const cached = await getCachedItineraryByKey(cacheKey);
+    // Past its TTL and grace the planner would no longer serve it, so it is not edited either.
+    if (!cached || !isItineraryServable(cached)) {
+      return NextResponse.json({ error: 'Itinerary not found; it may have expired.' }, { status: 404 });
+    }
+    const { itinerary, places, city } = responseFromCache(cached, cacheKey);
+    if (!isIndex(dayIndex, itinerary.length)) {
+      return NextResponse.json({ error: `"dayIndex" must be between 0 and ${itinerary.length - 1}.` }, { status: 400 });
+    }
+    const parsedProfile = parseTravellerProfile(cached.meta?.profile);
+    const request = {
+      places,
+      itinerary,
+      cityName: cityName?.trim() || city,
+      profile: parsedProfile.ok ? parsedProfile.profile : DEFAULT_TRAVELLER_PROFILE,
+    };
+
+    let edit: ItineraryEdit;
+    let edited: EditedDay;
+    const { geminiKey } = await getApiKeys();
+
+    if (action === 'regenerate-day') {
+      edit = { type: 'regenerate-day', dayIndex };
+      edited = await regenerateDay(geminiKey, request, dayIndex);
+    } else {
+      if (!isIndex(activityIndex, itinerary[dayIndex].activities.length)) {
+        return NextResponse.json({ error: '"activityIndex" does not match an activity on that day.' }, { status: 400 });
+      }
+      const alternatives = alternativePlaces(itinerary, places);
+      const target = placeName
+        ? alternatives.find(p => p.name.toLowerCase() === placeName.trim().toLowerCase())
+        : pickAlternativePlace(itinerary, places, dayIndex, activityIndex);
+      if (!target) {
+        const error = placeName
+          ? `"${placeName}" is not an unused place in this itinerary.`
+          : 'Every place is already in the itinerary; add more places to swap.';
+        return NextResponse.json({ error }, { status: 400 });
+      }
+      edit = { type: 'swap-activity', dayIndex, activityIndex, placeName: target.name };
+      edited = await swapActivity(geminiKey, request, dayIndex, activityIndex, target.name);
+    }
+
+    const nextItinerary = itinerary.map((day, i) => (i === dayIndex ? edited.day : day));
+    // Chains of edits all point back at the generated entry they started from.
+    const derivedFrom = cached.meta?.derivedFrom ?? cacheKey;
+    const nextKey = derivedItineraryKey(derivedFrom, randomUUID().slice(0, 8));
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { updatedAt, ...base } = cached;
+
+    await storeDerivedItinerary(nextKey, {
+      ...base,
+      itinerary: nextItinerary,
+      createdAt: new Date().toISOString(),
+      meta: {
+        ...cached.meta,
+        cacheVersion: ITINERARY_CACHE_VERSION,
+        model: GEMINI_MODEL,
+        prompt: edited.prompt,
+        rawGeminiText: edited.rawText,
+        generationAttempts: edited.attempts,
+        derivedFrom,
+        parentKey: cacheKey,
+        edit,
+      },
+    });
+    console.log(`API: Stored ${edit.type} edit of ${cacheKey} as ${nextKey}.`);
+
+    const response: EditResponse = {
+      cacheKey: nextKey,
+      derivedFrom,
+      dayIndex,
+      day: edited.day,
+      itinerary: nextItinerary,
+      places,
+    };
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    console.error('API Edit Route Error:', error);
+    const msg = error instanceof Error ? error.message : 'Unknown server error.';
+    return NextResponse.json({ error: `Server Error: ${msg}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,153 @@
+// app/api/gemini-recommendations/stream/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { EnrichedPlace } from '@/lib/firestoreCache';
+import {
+  planCityItinerary,
+  type IncomingPlace,
+  type ItineraryDay,
+  type CityPlanRequest,
+} from '@/lib/itineraryGenerator';
+import { parseTripShape } from '@/lib/tripShape';
+import {
+  parseTripLegs,
+  planLegs,
+  planMultiCityItinerary,
+  parseCountryCode,
+  type LegPlan,
+  type LegSummary,
+  type MultiCityTrip,
+} from '@/lib/tripLegs';
+import { parseTravellerProfile } from '@/lib/travellerProfile';
+
+// --- Types ---
+interface RequestBody {
+  places?: IncomingPlace[];
+  tripLength?: number;
+  arrivalTime?: string;   // HH:MM; makes day 1 a half day
+  departureTime?: string; // HH:MM; makes the last day a half day
+  cityName?: string;
+  profile?: unknown;      // TravellerProfile; validated below
+  lat?: number;           // city centre, for the weather forecast
+  lng?: number;
+  startDate?: string;     // YYYY-MM-DD of day 1; dates every day
+  country?: string;       // ISO 3166-1 alpha-2, for public holidays
+  legs?: unknown;         // multi-city: [{ cityName, places, days, lat, lng, country? }]; replaces the city fields above
+}
+
+/**
+ * NDJSON protocol: one `meta` line, one `day` line per itinerary day (in
+ * order), then `done` — or `error` at any point. Once a city's days are all
+ * in, days its cross-day rebalancing changed are sent again with the same
+ * index and replace the earlier line. Cache hits replay the same
+ * sequence in a single burst. Multi-city trips send a `leg` line (with that
+ * city's places) before each leg's days; their `meta` carries no places.
+ */
+type StreamEvent =
+  | { type: 'meta'; city: string; days: number; places: EnrichedPlace[]; cached: boolean; legs?: number }
+  | { type: 'leg'; index: number; leg: LegSummary; places: EnrichedPlace[]; cached: boolean }
+  | { type: 'day'; index: number; day: ItineraryDay }
+  | { type: 'done'; createdAt: string; cacheKey?: string; legs?: LegSummary[] }
+  | { type: 'error'; error: string };
+
+type Send = (event: StreamEvent) => void;
+
+async function streamCity(request: CityPlanRequest, send: Send): Promise<void> {
+  const response = await planCityItinerary(request, {
+    onPlaces: (places, cached) =>
+      send({ type: 'meta', city: request.cityName, days: request.shape.days, places, cached }),
+    onDay: (day, index) => send({ type: 'day', index, day }),
+  });
+  send({ type: 'done', createdAt: response.createdAt, cacheKey: response.cacheKey });
+}
+
+async function streamLegs(plans: LegPlan[], trip: MultiCityTrip, send: Send): Promise<void> {
+  send({
+    type: 'meta',
+    city: plans.map(p => p.leg.cityName).join(' → '),
+    days: plans.reduce((sum, p) => sum + p.leg.days, 0),
+    places: [],
+    cached: false,
+    legs: plans.length,
+  });
+  const response = await planMultiCityItinerary(plans, trip, {
+    onLeg: (leg, index, places, cached) => send({ type: 'leg', index, leg, places, cached }),
+    onDay: (day, index) => send({ type: 'day', index, day }),
+  });
+  send({ type: 'done', createdAt: response.createdAt, legs: response.legs });
+}
+
+// --- Main API Handler ---
+export async function POST(req: NextRequest) {
+  // Parse safely
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid or empty JSON body.' }, { status: 400 });
+  }
+
+  const { places = [], tripLength = 3, arrivalTime, departureTime, cityName = 'CityBreaker', profile: rawProfile, lat, lng, startDate } = body;
+  const parsedProfile = parseTravellerProfile(rawProfile);
+  if (!parsedProfile.ok) {
+    return NextResponse.json({ error: parsedProfile.error }, { status: 400 });
+  }
+  const { profile } = parsedProfile;
+  const location = Number.isFinite(lat) && Number.isFinite(lng) ? { lat: lat!, lng: lng! } : undefined;
+
+  let run: (send: Send) => Promise<void>;
+  if (body.legs !== undefined) {
+    const parsedLegs = parseTripLegs(body.legs);
+    if (!parsedLegs.ok) {
+      return NextResponse.json({ error: parsedLegs.error }, { status: 400 });
+    }
+    const planned = planLegs(parsedLegs.legs, { arrivalTime, departureTime, startDate });
+    if (!planned.ok) {
+      return NextResponse.json({ error: planned.error }, { status: 400 });
+    }
+    run = send => streamLegs(planned.plans, { profile }, send);
+  } else {
+    if (!Array.isArray(places) || places.length === 0) {
+      return NextResponse.json({ error: 'A non-empty "places" array is required.' }, { status: 400 });
+    }
+    // Normalize inputs
+    const parsedShape = parseTripShape({ tripLength, arrivalTime, departureTime, startDate });
+    if (!parsedShape.ok) {
+      return NextResponse.json({ error: parsedShape.error }, { status: 400 });
+    }
+    run = send => streamCity({ cityName, places, shape: parsedShape.shape, profile, location, country: parseCountryCode(body.country) }, send);
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false; // client went away; keep generating so the cache still fills
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: Send = (event) => {
+        if (!closed) controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        await run(send);
+      } catch (error: unknown) {
+        console.error('API Stream Route Error:', error);
+        const msg = error instanceof Error ? error.message : 'Unknown server error.';
+        send({ type: 'error', error: `Server Error: ${msg}` });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,88 @@
+// app/api/pdf-itinerary/events/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getPdfJob, type PdfJob } from '@/lib/firestoreCache';
+
+/** The worker writes progress to the job record; this is how often it is re-read. */
+const JOB_POLL_MS = 1000;
+/** Keeps proxies from closing a quiet stream while a long step runs. */
+const KEEPALIVE_MS = 15000;
+/** Streams end after this; EventSource reconnects on its own if the job is still running. */
+const MAX_STREAM_MS = 10 * 60 * 1000;
+
+/** What the panel needs from a job; the request payload stays on the server. */
+function jobEvent(job: PdfJob) {
+  const { status, stage, progress, pdfUrl, error, attempts, maxAttempts } = job;
+  return { status, stage, progress, pdfUrl, error, attempts, maxAttempts };
+}
+
+/**
+ * GET ?jobId= — server-sent events for one PDF job: a `job` event with the
+ * current state, another whenever it changes, and the stream closes once the
+ * job is COMPLETE or FAILED.
+ */
+export async function GET(req: NextRequest) {
+  const jobId = req.nextUrl.searchParams.get('jobId');
+  if (!jobId) {
+    return NextResponse.json({ error: 'Missing jobId parameter' }, { status: 400 });
+  }
+  const first = await getPdfJob(jobId).catch(() => null);
+  if (!first) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch { /* Already cancelled by the client */ }
+      };
+      req.signal.addEventListener('abort', close, { once: true });
+
+      const startedAt = Date.now();
+      let lastSent = '';
+      let lastWriteAt = 0;
+      let job: PdfJob | null = first;
+      while (!closed && job) {
+        const data = JSON.stringify(jobEvent(job));
+        if (data !== lastSent) {
+          write(`event: job\ndata: ${data}\n\n`);
+          lastSent = data;
+          lastWriteAt = Date.now();
+        }
+        if (job.status === 'COMPLETE' || job.status === 'FAILED') break;
+        if (Date.now() - startedAt >= MAX_STREAM_MS) break;
+        if (Date.now() - lastWriteAt >= KEEPALIVE_MS) {
+          write(': keepalive\n\n');
+          lastWriteAt = Date.now();
+        }
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_MS));
+        try {
+          job = await getPdfJob(jobId); // null once purged: nothing more to report
+        } catch (err) {
+          console.error(`PDF: Failed to read job ${jobId} for its event stream`, err);
+        }
+      }
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,19 @@
+// app/api/pdf-itinerary/templates/route.ts
+import { NextResponse } from 'next/server';
+
+import {
+  DEFAULT_PDF_TEMPLATE,
+  PDF_ORIENTATIONS,
+  PDF_PAPER_SIZES,
+  listPdfTemplates,
+} from '@/lib/pdfTemplates';
+
+/** GET — the PDF layouts a job can ask for, with the paper sizes and orientations. */
+export async function GET() {
+  return NextResponse.json({
+    templates: listPdfTemplates(),
+    defaultTemplate: DEFAULT_PDF_TEMPLATE,
+    paperSizes: PDF_PAPER_SIZES,
+    orientations: PDF_ORIENTATIONS,
+  });
+}
@@ -12,25 +12,26 @@ import { useMapBounds } from "@/lib/useMapBounds"
 interface City {
   name: string;
   timezone: string;
+  country?: string; // ISO 3166-1 alpha-2, for public holidays
   lat: number;
   lng: number;
 }
 
 const CITIES: City[] = [
-  { name: "London", timezone: "Europe/London", lat: 51.5074, lng: -0.1278 },
-  { name: "Paris", timezone: "Europe/Paris", lat: 48.8566, lng: 2.3522 },
-  { name: "Berlin", timezone: "Europe/Berlin", lat: 52.52, lng: 13.405 },
-  { name: "Mannheim", timezone: "Europe/Berlin", lat: 49.4875, lng: 8.466 },
-  { name: "Prague", timezone: "Europe/Prague", lat: 50.0755, lng: 14.4378 },
-  { name: "Dubai", timezone: "Asia/Dubai", lat: 25.2048, lng: 55.2708 },
-  { name: "Beijing", timezone: "Asia/Shanghai", lat: 39.9042, lng: 116.4074 },
-  { name: "Tokyo", timezone: "Asia/Tokyo", lat: 35.6895, lng: 139.6917 },
-  { name: "Seoul", timezone: "Asia/Seoul", lat: 37.5665, lng: 126.978 },
-  { name: "New York", timezone: "America/New_York", lat: 40.7128, lng: -74.006 },
-  { name: "San Francisco", timezone: "America/Los_Angeles", lat: 37.7749, lng: -122.4194 },
-  { name: "Shanghai", timezone: "Asia/Shanghai", lat: 31.2304, lng: 121.4737 },
-  { name: "Ningbo", timezone: "Asia/Shanghai", lat: 29.8683, lng: 121.544 },
-  { name: "Nantong", timezone: "Asia/Shanghai", lat: 31.9802, lng: 120.8943 },
+  { name: "London", timezone: "Europe/London", country: "GB", lat: 51.5074, lng: -0.1278 },
+  { name: "Paris", timezone: "Europe/Paris", country: "FR", lat: 48.8566, lng: 2.3522 },
+  { name: "Berlin", timezone: "Europe/Berlin", country: "DE", lat: 52.52, lng: 13.405 },
+  { name: "Mannheim", timezone: "Europe/Berlin", country: "DE", lat: 49.4875, lng: 8.466 },
+  { name: "Prague", timezone: "Europe/Prague", country: "CZ", lat: 50.0755, lng: 14.4378 },
+  { name: "Dubai", timezone: "Asia/Dubai", country: "AE", lat: 25.2048, lng: 55.2708 },
+  { name: "Beijing", timezone: "Asia/Shanghai", country: "CN", lat: 39.9042, lng: 116.4074 },
+  { name: "Tokyo", timezone: "Asia/Tokyo", country: "JP", lat: 35.6895, lng: 139.6917 },
+  { name: "Seoul", timezone: "Asia/Seoul", country: "KR", lat: 37.5665, lng: 126.978 },
+  { name: "New York", timezone: "America/New_York", country: "US", lat: 40.7128, lng: -74.006 },
+  { name: "San Francisco", timezone: "America/Los_Angeles", country: "US", lat: 37.7749, lng: -122.4194 },
+  { name: "Shanghai", timezone: "Asia/Shanghai", country: "CN", lat: 31.2304, lng: 121.4737 },
+  { name: "Ningbo", timezone: "Asia/Shanghai", country: "CN", lat: 29.8683, lng: 121.544 },
+  { name: "Nantong", timezone: "Asia/Shanghai", country: "CN", lat: 31.9802, lng: 120.8943 },
 ];
 
 const COUNTRY_COLORS: Record<string, string> = {
@@ -134,6 +135,7 @@ export default function HomePage() {
         onMapLoad={handleMapLoad}
         onMapIdle={handleMapIdle}
         onZoomToLocation={handleZoomToLocation}
+        cities={CITIES}
       />
 
       <AnimatedHeaderBoard
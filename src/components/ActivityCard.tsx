@@ -3,7 +3,8 @@
 import Image from "next/image";
 import React from "react";
 import ReactMarkdown from "react-markdown";
-import { MapPin, Pin, Star, Users, Wallet } from "lucide-react";
+import { AlertTriangle, Clock, MapPin, Pin, Shuffle, Star, Users, Wallet } from "lucide-react";
+import { convertCost, formatCostRange, type CostEstimate } from "@/lib/budget";
 
 // --- TYPE DEFINITIONS ---
 interface EnrichedPlace {
@@ -22,18 +23,65 @@ interface ItineraryActivity {
   priceRange: string;
   audience: string;
   placeName: string;
+  startTime?: string;
+  durationMinutes?: number;
+  endTime?: string;
+  rescheduled?: boolean;
+  closedAtTime?: boolean;
+  pastDayEnd?: boolean;
+  cost?: CostEstimate;
 }
 
 interface ActivityCardProps {
   activity: ItineraryActivity;
   place?: EnrichedPlace;
   onZoomToLocation: (location: { lat: number; lng: number }) => void;
+  /** Unused places this activity can be swapped for; no swap control when absent. */
+  alternatives?: string[];
+  /** Called with the chosen place, or undefined to let the server pick one nearby. */
+  onSwap?: (placeName?: string) => void;
+  isSwapping?: boolean;
+  swapDisabled?: boolean;
+  /** Currency to show the cost in; the local currency when unset. */
+  displayCurrency?: string;
 }
 
 
+// --- HELPERS ---
+
+const formatDuration = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+};
+
+/** Converted cost with its category; the original figure goes in the tooltip. */
+const describeCost = (cost: CostEstimate, displayCurrency?: string) => {
+  const shown = displayCurrency ? convertCost(cost, displayCurrency) : cost;
+  const original = formatCostRange(cost.min, cost.max, cost.currency);
+  return {
+    label: `${formatCostRange(shown.min, shown.max, shown.currency)} · ${cost.category}`,
+    title: shown.currency === cost.currency ? undefined : `${original} locally, per person`,
+  };
+};
+
 // --- COMPONENT ---
 
-const ActivityCard: React.FC<ActivityCardProps> = ({ activity, place, onZoomToLocation }) => (
+const NEARBY_PICK = "__nearby__";
+
+const ActivityCard: React.FC<ActivityCardProps> = ({
+  activity,
+  place,
+  onZoomToLocation,
+  alternatives,
+  onSwap,
+  isSwapping,
+  swapDisabled,
+  displayCurrency,
+}) => {
+  const cost = activity.cost ? describeCost(activity.cost, displayCurrency) : undefined;
+  return (
   <div className="activity-card flex flex-col overflow-hidden rounded-xl border border-neutral-700/60 bg-neutral-800/50 shadow-lg sm:flex-row">
     <div className="relative h-40 w-full flex-shrink-0 sm:h-auto sm:w-1/3">
         {place?.photoUrl ? (
@@ -59,24 +107,68 @@ const ActivityCard: React.FC<ActivityCardProps> = ({ activity, place, onZoomToLo
           {activity.title}
         </h4>
         
-        {/* ✅ THE DEFINITIVE FIX: This condition is now 100% safe. */}
-        {/* It guarantees that place.location, lat, and lng are all valid numbers before rendering the button. */}
-        {place?.location &&
-          isFinite(place.location.lat) &&
-          isFinite(place.location.lng) && (
-            <button
-              onClick={() => onZoomToLocation(place.location!)}
-              className="flex flex-shrink-0 items-center gap-1.5 rounded-full bg-blue-500/10 px-2.5 py-1.5 text-xs font-semibold text-blue-400 transition-colors hover:bg-blue-500/20"
-              title={`View ${activity.placeName} on the map`}
+        <div className="flex flex-shrink-0 items-center gap-2">
+          {onSwap && alternatives && alternatives.length > 0 && (
+            <label
+              className={`relative flex items-center gap-1.5 rounded-full bg-amber-500/10 px-2.5 py-1.5 text-xs font-semibold text-amber-300 transition-colors hover:bg-amber-500/20 ${swapDisabled ? "opacity-50" : ""}`}
+              title="Replace this stop with another place from your list"
             >
-              <MapPin size={14} />
-              Map
-            </button>
-        )}
+              <Shuffle size={14} className={isSwapping ? "animate-pulse" : undefined} />
+              {isSwapping ? "Swapping..." : "Swap"}
+              <select
+                value=""
+                disabled={swapDisabled}
+                onChange={(e) => onSwap(e.target.value === NEARBY_PICK ? undefined : e.target.value)}
+                className="absolute inset-0 cursor-pointer opacity-0 disabled:cursor-not-allowed"
+                aria-label={`Swap ${activity.placeName} for another place`}
+              >
+                <option value="" disabled>Swap for…</option>
+                <option value={NEARBY_PICK}>Best nearby pick</option>
+                {alternatives.map((name) => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+          )}
+          {/* ✅ THE DEFINITIVE FIX: This condition is now 100% safe. */}
+          {/* It guarantees that place.location, lat, and lng are all valid numbers before rendering the button. */}
+          {place?.location &&
+            isFinite(place.location.lat) &&
+            isFinite(place.location.lng) && (
+              <button
+                onClick={() => onZoomToLocation(place.location!)}
+                className="flex flex-shrink-0 items-center gap-1.5 rounded-full bg-blue-500/10 px-2.5 py-1.5 text-xs font-semibold text-blue-400 transition-colors hover:bg-blue-500/20"
+                title={`View ${activity.placeName} on the map`}
+              >
+                <MapPin size={14} />
+                Map
+              </button>
+          )}
+        </div>
       </div>
+      {activity.closedAtTime && (
+        <div className="mb-3 flex items-center gap-2 rounded-md border border-red-500/40 bg-red-500/10 px-2.5 py-1.5 text-xs font-semibold text-red-300">
+          <AlertTriangle size={14} className="flex-shrink-0" />
+          Closed at this time — check opening hours before you go.
+        </div>
+      )}
+      {activity.pastDayEnd && (
+        <div className="mb-3 flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-2.5 py-1.5 text-xs font-semibold text-amber-300">
+          <AlertTriangle size={14} className="flex-shrink-0" />
+          Runs past the end of this day — consider dropping or moving it.
+        </div>
+      )}
       <div className="mb-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-400 sm:text-sm">
-        <span className="flex items-center gap-1.5">
-          <Wallet size={14} className="text-amber-400/80" /> {activity.priceRange}
+        {activity.startTime && activity.endTime && (
+          <span
+            className="flex items-center gap-1.5 font-semibold text-neutral-200"
+            title={activity.rescheduled ? "Moved to fit opening hours" : undefined}
+          >
+            <Clock size={14} className="text-amber-400/80" />
+            {activity.startTime}–{activity.endTime}
+            {activity.durationMinutes ? <span className="font-normal text-neutral-400">({formatDuration(activity.durationMinutes)})</span> : null}
+          </span>
+        )}
+        <span className="flex items-center gap-1.5" title={cost?.title}>
+          <Wallet size={14} className="text-amber-400/80" /> {cost?.label ?? activity.priceRange}
         </span>
         <span className="flex items-center gap-1.5">
           <Users size={14} className="text-amber-400/80" /> {activity.audience}
@@ -103,6 +195,7 @@ const ActivityCard: React.FC<ActivityCardProps> = ({ activity, place, onZoomToLo
       </div>
     </div>
   </div>
-);
+  );
+};
 
 export default ActivityCard;
\ No newline at end of file
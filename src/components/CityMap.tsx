@@ -9,6 +9,7 @@ import LocationMenuPopup, {
   Review,
 } from "./LocationMenuPopup";
 import { useMaps } from "./providers/MapsProvider";
+import { searchTouristAttractions, toPlacePhotos } from "@/lib/cityPlaces";
 
 // --- CONSTANTS AND TYPES (Unchanged) ---
 
@@ -47,6 +48,8 @@ interface CityMapProps {
   onMapLoad?: (map: google.maps.Map) => void;
   onMapIdle?: () => void;
   onZoomToLocation: (location: { lat: number; lng: number }) => void;
+  /** Cities that can be added as further legs of the itinerary. */
+  cities?: { name: string; lat: number; lng: number; country?: string }[];
 }
 
 interface CustomMarker extends google.maps.Marker {
@@ -85,6 +88,7 @@ export default function CityMap({
   highlightedLocation,
   onMapLoad,
   onMapIdle,
+  cities,
 }: CityMapProps) {
   const { isLoaded } = useMaps();
   const mapRef = useRef<google.maps.Map | null>(null);
@@ -239,15 +243,10 @@ export default function CityMap({
       setPlacePhotos([]);
       clearMarkers();
       try {
-        const { places } = await google.maps.places.Place.searchNearby({
-          includedTypes: ['tourist_attraction'],
-          locationRestriction: { center: center, radius: 20000 },
-          maxResultCount: 15,
-          fields: ["id", "displayName", "location", "photos"],
-        });
-        
-        const photos = places.map(p => ({ name: p.displayName || "", photoUrl: p.photos?.[0]?.getURI() }));
-        setPlacePhotos(photos.filter(p => p.name));
+        const places = await searchTouristAttractions(center);
+
+        const photos = toPlacePhotos(places);
+        setPlacePhotos(photos);
         onPlacesLoaded?.(photos.map(p => p.photoUrl!).filter(Boolean));
 
         for (const place of places) {
@@ -340,6 +339,7 @@ export default function CityMap({
             <ItineraryPanel
                 cityName={selectedCityName}
                 places={placePhotos}
+                cities={cities}
                 onClose={onCloseItinerary}
                 onZoomToLocation={handleZoomToLocation} 
             />
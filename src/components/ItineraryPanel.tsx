@@ -9,15 +9,53 @@ import React, {
 } from "react";
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/dist/ScrollTrigger";
-import { Download, X } from "lucide-react";
+import {
+  Car,
+  Cloud,
+  CloudLightning,
+  CloudRain,
+  Download,
+  PartyPopper,
+  Footprints,
+  Plane,
+  RefreshCw,
+  Snowflake,
+  Sun,
+  TrainFront,
+  Wallet,
+  X,
+} from "lucide-react";
 import Image from "next/image";
 import ActivityCard from "./ActivityCard";
+import TravellerProfileEditor from "./TravellerProfileEditor";
+import TripLegsEditor, { type TripLegDraft } from "./TripLegsEditor";
+import { MIN_TRIP_DAYS, MAX_TRIP_DAYS, MAX_TRIP_LEGS, todayIsoDate } from "@/lib/tripShape";
+import {
+  DEFAULT_TRAVELLER_PROFILE,
+  TRAVELLER_PROFILE_STORAGE_KEY,
+  parseTravellerProfile,
+  type TravellerProfile,
+} from "@/lib/travellerProfile";
+import { searchTouristAttractions, toPlacePhotos } from "@/lib/cityPlaces";
+import { describeTransfer, type CityTransfer } from "@/lib/routing";
+import type { DayForecast } from "@/lib/weather";
+import {
+  DISPLAY_CURRENCY_STORAGE_KEY,
+  SUPPORTED_CURRENCIES,
+  formatCostRange,
+  isSupportedCurrency,
+  mainCurrency,
+  sumCosts,
+  type CostEstimate,
+  type CostTotal,
+} from "@/lib/budget";
 
 gsap.registerPlugin(ScrollTrigger);
 
-const TRIP_LENGTH_OPTIONS = [3, 5, 7];
+const TRIP_LENGTH_PRESETS = [2, 3, 5, 7, 14];
 const DEFAULT_TRIP_LENGTH = 3;
-const POLLING_INTERVAL_MS = 3000;
+const ARRIVAL_TIME_OPTIONS = ["10:00", "12:00", "14:00", "16:00", "18:00"];
+const DEPARTURE_TIME_OPTIONS = ["11:00", "13:00", "15:00", "17:00", "19:00"];
 
 interface EnrichedPlace {
   name: string;
@@ -35,30 +73,102 @@ interface ItineraryActivity {
   priceRange: string;
   audience: string;
   placeName: string;
+  startTime?: string;
+  durationMinutes?: number;
+  endTime?: string;
+  rescheduled?: boolean;
+  closedAtTime?: boolean;
+  pastDayEnd?: boolean;
+  cost?: CostEstimate;
 }
 
 interface ItineraryDay {
   title?: string;
   dayPhotoUrl?: string;
   activities: ItineraryActivity[];
+  kind?: 'full' | 'arrival' | 'departure' | 'arrival-departure';
+  halfDay?: boolean;
+  earliestStart?: string;
+  latestEnd?: string;
+  walkingKm?: number;
+  walkingMinutes?: number;
+  city?: string;
+  transfer?: CityTransfer;
+  travelOnly?: boolean;
+  weather?: DayForecast;
+  indoorAlternatives?: string[];
+  date?: string;
+  weekday?: number;
+  holiday?: string;
+}
+
+/** Where each city's days sit in the trip; single-city plans have one leg. */
+interface TripLegInfo {
+  city: string;
+  startDay: number;
+  plannedFrom: number;
+  days: number;
+  cacheKey?: string;
+  placeNames: string[];
 }
 
 interface ApiResponse {
   itinerary: ItineraryDay[];
   places: EnrichedPlace[];
+  legs: TripLegInfo[];
 }
 
+type ItineraryEditAction =
+  | { action: "regenerate-day" }
+  | { action: "swap-activity"; activityIndex: number; placeName?: string };
+
+type ItineraryStreamEvent =
+  | { type: 'meta'; days: number; places: EnrichedPlace[]; cached: boolean; legs?: number }
+  | { type: 'leg'; index: number; leg: Omit<TripLegInfo, "placeNames">; places: EnrichedPlace[] }
+  | { type: 'day'; index: number; day: ItineraryDay }
+  | { type: 'done'; cacheKey?: string }
+  | { type: 'error'; error: string };
+
 type PdfJobStatus = 'IDLE' | 'PENDING' | 'PROCESSING' | 'COMPLETE' | 'FAILED';
+type PdfJobStage = 'enriching' | 'writing' | 'images' | 'rendering' | 'uploading';
 
+/** A `job` event from /api/pdf-itinerary/events. */
 interface PdfJobResponse {
   status: PdfJobStatus;
+  stage?: PdfJobStage;
+  progress?: number;
   pdfUrl?: string;
   error?: string;
 }
 
+/** GET /api/pdf-itinerary/templates. */
+interface PdfTemplateOptions {
+  templates: { id: string; name: string; description: string }[];
+  defaultTemplate: string;
+  paperSizes: string[];
+  orientations: string[];
+}
+
+/** Empty paper or orientation leaves the choice to the template. */
+interface PdfLayoutChoice {
+  template: string;
+  paper: string;
+  orientation: string;
+}
+
+const PDF_STAGE_LABELS: Record<PdfJobStage, string> = {
+  enriching: "Looking up places",
+  writing: "Writing your guide",
+  images: "Preparing photos",
+  rendering: "Laying out pages",
+  uploading: "Uploading",
+};
+
 interface ItineraryPanelProps {
   cityName: string;
   places: { name: string; photoUrl?: string }[];
+  /** Cities that can be added as further legs; multi-city is off without them. */
+  cities?: { name: string; lat: number; lng: number; country?: string }[];
   onClose: () => void;
   onZoomToLocation: (location: { lat: number; lng: number }) => void;
 }
@@ -68,36 +178,116 @@ const formatCityName = (input: string | undefined): string => {
   return input.trim().toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
 };
 
+const loadStoredProfile = (): TravellerProfile => {
+  if (typeof window === "undefined") return DEFAULT_TRAVELLER_PROFILE;
+  try {
+    const raw = window.localStorage.getItem(TRAVELLER_PROFILE_STORAGE_KEY);
+    const parsed = parseTravellerProfile(raw ? JSON.parse(raw) : undefined);
+    return parsed.ok ? parsed.profile : DEFAULT_TRAVELLER_PROFILE;
+  } catch {
+    return DEFAULT_TRAVELLER_PROFILE;
+  }
+};
+
+/** "" means each city's own currency. */
+const loadStoredCurrency = (): string => {
+  if (typeof window === "undefined") return "";
+  try {
+    const stored = window.localStorage.getItem(DISPLAY_CURRENCY_STORAGE_KEY);
+    return isSupportedCurrency(stored) ? stored : "";
+  } catch {
+    return "";
+  }
+};
+
+/** Per-person spend across the days, or undefined when no activity has a cost. */
+const totalCost = (days: ItineraryDay[], displayCurrency: string): CostTotal | undefined => {
+  const costs = days.flatMap((d) => d.activities?.map((a) => a.cost) ?? []);
+  const currency = displayCurrency || mainCurrency(costs);
+  return currency ? sumCosts(costs, currency) : undefined;
+};
+
+const TRANSFER_ICONS = { car: Car, train: TrainFront, flight: Plane };
+const WEATHER_ICONS = { sunny: Sun, cloudy: Cloud, rain: CloudRain, storm: CloudLightning, snow: Snowflake };
+
+const formatDayDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+
+const describeHalfDay = (day: ItineraryDay): string | null => {
+  switch (day.kind) {
+    case "arrival": return `Arrival · from ${day.earliestStart}`;
+    case "departure": return `Departure · until ${day.latestEnd}`;
+    case "arrival-departure": return `${day.earliestStart} – ${day.latestEnd}`;
+    default: return null;
+  }
+};
+
 const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
   cityName,
   places,
+  cities,
   onClose,
   onZoomToLocation,
 }) => {
   const [itineraryData, setItineraryData] = useState<ItineraryDay[]>([]);
   const [enrichedPlaces, setEnrichedPlaces] = useState<EnrichedPlace[]>([]);
   const [panelLoading, setPanelLoading] = useState(true);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [expectedDays, setExpectedDays] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [tripLegs, setTripLegs] = useState<TripLegInfo[]>([]);
+  const [editingTarget, setEditingTarget] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
   const [currentTripLength, setCurrentTripLength] = useState(DEFAULT_TRIP_LENGTH);
+  const [arrivalTime, setArrivalTime] = useState("");
+  const [departureTime, setDepartureTime] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [profile, setProfile] = useState<TravellerProfile>(loadStoredProfile);
+  const [displayCurrency, setDisplayCurrency] = useState(loadStoredCurrency);
+  const [extraLegs, setExtraLegs] = useState<TripLegDraft[]>([]);
 
   const [pdfJobId, setPdfJobId] = useState<string | null>(null);
   const [pdfJobStatus, setPdfJobStatus] = useState<PdfJobStatus>('IDLE');
   const [pdfJobError, setPdfJobError] = useState<string | null>(null);
+  const [pdfProgress, setPdfProgress] = useState<{ stage?: PdfJobStage; progress: number }>({ progress: 0 });
   const [finalPdfUrl, setFinalPdfUrl] = useState<string | null>(null);
+  const [pdfOptions, setPdfOptions] = useState<PdfTemplateOptions | null>(null);
+  const [pdfLayout, setPdfLayout] = useState<PdfLayoutChoice>({ template: "", paper: "", orientation: "" });
 
   const panelRef = useRef<HTMLDivElement>(null);
   const onCloseRef = useRef(onClose);
-  const itineraryCacheRef = useRef(new Map<number, ApiResponse>());
+  const itineraryCacheRef = useRef(new Map<string, ApiResponse>());
   const prevPlacesKeyRef = useRef<string | null>(null);
   const requestIdRef = useRef(0);
+  const cityPlacesRef = useRef(new Map<string, { name: string; photoUrl?: string }[]>());
 
   const safeCityName = useMemo(() => formatCityName(cityName), [cityName]);
   const placesKey = useMemo(
     () => JSON.stringify((places || []).map((p) => (p.name || "").trim()).sort()),
     [places]
   );
+  const profileKey = useMemo(() => JSON.stringify(profile), [profile]);
+  const currentCity = useMemo(
+    () => cities?.find((c) => c.name.toLowerCase() === safeCityName.toLowerCase()),
+    [cities, safeCityName]
+  );
+  const legCities = useMemo(
+    () => (cities || []).filter((c) => c !== currentCity),
+    [cities, currentCity]
+  );
+  const activeLegs = currentCity ? extraLegs : [];
+  const extraDays = activeLegs.reduce((sum, l) => sum + l.days, 0);
+  const totalDays = currentTripLength + extraDays;
+  const legsKey = activeLegs.map((l) => `${l.name}:${l.days}`).join(",");
+  const tripKey = `${currentTripLength}|${arrivalTime}|${departureTime}|${startDate}|${profileKey}|${legsKey}`;
   const hasData = !panelLoading && !error && itineraryData.length > 0;
   const isGeneratingPdf = pdfJobStatus === 'PENDING' || pdfJobStatus === 'PROCESSING';
+  const isBusy = isStreaming || editingTarget !== null;
 
   useEffect(() => {
     onCloseRef.current = onClose;
@@ -111,68 +301,156 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
     return () => _ctx.revert();
   }, []);
 
+  /** Request `legs` for multi-city trips, loading attractions for the extra cities. */
+  const buildLegsPayload = useCallback(async () => {
+    if (!currentCity || activeLegs.length === 0) return undefined;
+    const extra = await Promise.all(activeLegs.map(async (leg) => {
+      let legPlaces = cityPlacesRef.current.get(leg.name);
+      if (!legPlaces) {
+        legPlaces = toPlacePhotos(await searchTouristAttractions(leg));
+        cityPlacesRef.current.set(leg.name, legPlaces);
+      }
+      return { cityName: leg.name, places: legPlaces, days: leg.days, lat: leg.lat, lng: leg.lng, country: leg.country };
+    }));
+    return [
+      {
+        cityName: safeCityName,
+        places,
+        days: currentTripLength,
+        lat: currentCity.lat,
+        lng: currentCity.lng,
+        country: currentCity.country,
+      },
+      ...extra,
+    ];
+    // activeLegs is derived from extraLegs on every render; legsKey tracks its content.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentCity, legsKey, safeCityName, places, currentTripLength]);
+
   useEffect(() => {
     if (prevPlacesKeyRef.current !== placesKey) {
       itineraryCacheRef.current.clear();
       prevPlacesKeyRef.current = placesKey;
     }
-    const cachedData = itineraryCacheRef.current.get(currentTripLength);
+    const cachedData = itineraryCacheRef.current.get(tripKey);
     if (cachedData) {
       setItineraryData(cachedData.itinerary || []);
       setEnrichedPlaces(cachedData.places || []);
+      setExpectedDays(cachedData.itinerary?.length || 0);
+      setTripLegs(cachedData.legs);
       setPanelLoading(false);
+      setIsStreaming(false);
       setError(null);
       return;
     }
     const controller = new AbortController();
     const currentReq = ++requestIdRef.current;
+    const isCurrent = () => currentReq === requestIdRef.current && !controller.signal.aborted;
     setPanelLoading(true);
+    setIsStreaming(true);
+    setItineraryData([]);
+    setExpectedDays(totalDays);
+    setTripLegs([]);
+    setEditError(null);
     setError(null);
-    const startTime = Date.now();
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     const fetchData = async () => {
+      const receivedDays: ItineraryDay[] = [];
+      const receivedLegs: TripLegInfo[] = [];
+      let allEnrichedPlaces: EnrichedPlace[] = [];
+      const withDayPhoto = (day: ItineraryDay): ItineraryDay => {
+        if (day.dayPhotoUrl) return day;
+        const firstPlaceName = day.activities?.[0]?.placeName;
+        if (!firstPlaceName) return day;
+        const photoPlace = allEnrichedPlaces.find(p => p.name === firstPlaceName);
+        return { ...day, dayPhotoUrl: photoPlace?.photoUrl };
+      };
+      const handleEvent = (event: ItineraryStreamEvent) => {
+        switch (event.type) {
+          case 'meta':
+            allEnrichedPlaces = event.places || [];
+            setEnrichedPlaces(allEnrichedPlaces);
+            setExpectedDays(event.days);
+            break;
+          case 'leg':
+            allEnrichedPlaces = [...allEnrichedPlaces, ...(event.places || [])];
+            setEnrichedPlaces(allEnrichedPlaces);
+            receivedLegs[event.index] = { ...event.leg, placeNames: (event.places || []).map((p) => p.name) };
+            setTripLegs(receivedLegs.filter(Boolean));
+            break;
+          case 'day':
+            receivedDays[event.index] = withDayPhoto(event.day);
+            setItineraryData(receivedDays.filter(Boolean));
+            setPanelLoading(false);
+            break;
+          case 'done': {
+            const legs = receivedLegs.length ? receivedLegs.filter(Boolean) : [{
+              city: safeCityName,
+              startDay: 0,
+              plannedFrom: 0,
+              days: receivedDays.length,
+              cacheKey: event.cacheKey,
+              placeNames: allEnrichedPlaces.map((p) => p.name),
+            }];
+            itineraryCacheRef.current.set(tripKey, {
+              itinerary: receivedDays.filter(Boolean),
+              places: allEnrichedPlaces,
+              legs,
+            });
+            setTripLegs(legs);
+            break;
+          }
+          case 'error':
+            throw new Error(event.error);
+        }
+      };
       try {
-        const res = await fetch("/api/gemini-recommendations/json", {
+        const legs = await buildLegsPayload();
+        const res = await fetch("/api/gemini-recommendations/stream", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ places, tripLength: currentTripLength, cityName: safeCityName }),
+          body: JSON.stringify({
+            places,
+            tripLength: currentTripLength,
+            arrivalTime: arrivalTime || undefined,
+            departureTime: departureTime || undefined,
+            startDate: startDate || undefined,
+            cityName: safeCityName,
+            profile,
+            lat: currentCity?.lat,
+            lng: currentCity?.lng,
+            country: currentCity?.country,
+            legs,
+          }),
           signal: controller.signal,
         });
-        if (!res.ok) {
+        if (!res.ok || !res.body) {
           const errorResponse = await res.json().catch(() => null) as { error?: unknown };
           throw new Error(typeof errorResponse?.error === "string" ? errorResponse.error : "Request failed");
         }
-        const data: ApiResponse = await res.json();
-        if (currentReq === requestIdRef.current && !controller.signal.aborted) {
-          const originalItinerary = data.itinerary || [];
-          const allEnrichedPlaces = data.places || [];
-          const enrichedItinerary = originalItinerary.map(day => {
-            if (day.dayPhotoUrl) return day;
-            const firstPlaceName = day.activities?.[0]?.placeName;
-            if (!firstPlaceName) return day;
-            const photoPlace = allEnrichedPlaces.find(p => p.name === firstPlaceName);
-            return { ...day, dayPhotoUrl: photoPlace?.photoUrl };
-          });
-
-          setItineraryData(enrichedItinerary);
-          setEnrichedPlaces(allEnrichedPlaces);
-          itineraryCacheRef.current.set(currentTripLength, {
-            itinerary: enrichedItinerary,
-            places: allEnrichedPlaces,
-          });
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const line of lines) {
+            if (!line.trim() || !isCurrent()) continue;
+            handleEvent(JSON.parse(line) as ItineraryStreamEvent);
+          }
         }
+        if (buffer.trim() && isCurrent()) handleEvent(JSON.parse(buffer) as ItineraryStreamEvent);
       } catch (err) {
-        if (!(err instanceof DOMException && err.name === "AbortError")) {
+        if (!(err instanceof DOMException && err.name === "AbortError") && isCurrent()) {
           setError(err instanceof Error ? err.message : "An unknown error occurred.");
         }
       } finally {
-        const duration = Date.now() - startTime;
-        const delay = Math.max(0, 1500 - duration);
-        timeoutId = setTimeout(() => {
-          if (currentReq === requestIdRef.current && !controller.signal.aborted) {
-            setPanelLoading(false);
-          }
-        }, delay);
+        if (isCurrent()) {
+          setPanelLoading(false);
+          setIsStreaming(false);
+        }
       }
     };
     fetchData();
@@ -180,11 +458,10 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
     document.addEventListener("keydown", handleKeyDown);
     return () => {
       controller.abort();
-      if (timeoutId) clearTimeout(timeoutId);
       document.removeEventListener("keydown", handleKeyDown);
       ScrollTrigger.getAll().forEach((t) => t.kill());
     };
-  }, [safeCityName, currentTripLength, placesKey, places]);
+  }, [safeCityName, currentCity, currentTripLength, totalDays, arrivalTime, departureTime, startDate, profile, tripKey, placesKey, places, buildLegsPayload]);
 
   useEffect(() => {
     if (!panelLoading && hasData) {
@@ -200,50 +477,83 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
   }, [panelLoading, hasData]);
 
   useEffect(() => {
-    if (!isGeneratingPdf || !pdfJobId) {
-      return;
-    }
-    const intervalId = setInterval(async () => {
-      try {
-        const res = await fetch(`/api/pdf-itinerary?jobId=${pdfJobId}`);
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({ error: 'Failed to get job status.' }));
-          throw new Error(errorData.error);
-        }
-        const data: PdfJobResponse = await res.json();
-        if (data.status !== pdfJobStatus) {
-            setPdfJobStatus(data.status);
-        }
-        if (data.status === 'COMPLETE') {
-          setFinalPdfUrl(data.pdfUrl || null);
-          setPdfJobId(null);
-          setPdfJobStatus('IDLE');
-        } else if (data.status === 'FAILED') {
-          setPdfJobError(data.error || 'An unknown error occurred during PDF generation.');
-          setPdfJobId(null);
-          setPdfJobStatus('IDLE');
-        }
-      } catch (err) {
-        console.error(err);
-        setPdfJobStatus('FAILED');
-        setPdfJobError(err instanceof Error ? err.message : 'Could not connect to check status.');
-        setPdfJobId(null);
+    // Days streamed in after the first render miss the ScrollTrigger batch above.
+    if (!isStreaming || itineraryData.length < 2) return;
+    const blocks = panelRef.current?.querySelectorAll(".day-block");
+    const latest = blocks?.[blocks.length - 1];
+    if (latest) gsap.from(latest, { autoAlpha: 0, y: 50, duration: 0.6, ease: "power3.out" });
+  }, [isStreaming, itineraryData.length]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/pdf-itinerary/templates", { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((options: PdfTemplateOptions | null) => {
+        if (!options) return;
+        setPdfOptions(options);
+        setPdfLayout((prev) => ({ ...prev, template: prev.template || options.defaultTemplate }));
+      })
+      // Without the list the layout controls stay hidden and the server default applies.
+      .catch(() => {});
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!pdfJobId) return;
+    const events = new EventSource(`/api/pdf-itinerary/events?jobId=${encodeURIComponent(pdfJobId)}`);
+    const finish = () => {
+      events.close();
+      setPdfJobId(null);
+      setPdfJobStatus('IDLE');
+      setPdfProgress({ progress: 0 });
+    };
+    events.addEventListener("job", (event) => {
+      const data: PdfJobResponse = JSON.parse((event as MessageEvent<string>).data);
+      setPdfJobStatus(data.status);
+      setPdfProgress({ stage: data.stage, progress: data.progress ?? 0 });
+      if (data.status === 'COMPLETE') {
+        setFinalPdfUrl(data.pdfUrl || null);
+        finish();
+      } else if (data.status === 'FAILED') {
+        setPdfJobError(data.error || 'An unknown error occurred during PDF generation.');
+        finish();
       }
-    }, POLLING_INTERVAL_MS);
-    return () => clearInterval(intervalId);
-  }, [pdfJobId, isGeneratingPdf, pdfJobStatus]);
+    });
+    // EventSource retries dropped connections itself; CLOSED means it gave up (e.g. the job is gone).
+    events.onerror = () => {
+      if (events.readyState !== EventSource.CLOSED) return;
+      setPdfJobError('Lost track of the PDF job.');
+      finish();
+    };
+    return () => events.close();
+  }, [pdfJobId]);
 
   const startPdfGenerationJob = useCallback(async () => {
     if (isGeneratingPdf) return;
     setPdfJobStatus('PENDING');
     setPdfJobError(null);
+    setPdfProgress({ progress: 0 });
     setPdfJobId(null);
     setFinalPdfUrl(null);
     try {
+      const legs = await buildLegsPayload();
+      // Print the plan on screen: its cache keys where the server has them, and the days as shown.
       const res = await fetch("/api/pdf-itinerary", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ places, tripLength: currentTripLength, cityName: safeCityName }),
+        body: JSON.stringify({
+          places,
+          tripLength: currentTripLength,
+          cityName: safeCityName,
+          startDate: startDate || undefined,
+          displayCurrency: displayCurrency || undefined,
+          template: pdfLayout.template || undefined,
+          paper: pdfLayout.paper || undefined,
+          orientation: pdfLayout.orientation || undefined,
+          cacheKey: legs ? undefined : tripLegs[0]?.cacheKey || undefined,
+          itinerary: itineraryData,
+          legs: legs?.map((leg, i) => ({ ...leg, cacheKey: tripLegs[i]?.cacheKey || undefined })),
+        }),
       });
       if (res.status !== 202) {
         const errorPayload = await res.json().catch(() => ({ error: "Failed to start job." }));
@@ -256,15 +566,120 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
       setPdfJobStatus('FAILED');
       setPdfJobError(errorMsg);
     }
-  }, [isGeneratingPdf, places, currentTripLength, safeCityName]);
+  }, [isGeneratingPdf, places, currentTripLength, safeCityName, startDate, displayCurrency, pdfLayout, buildLegsPayload, tripLegs, itineraryData]);
 
   const handleTripLengthChange = useCallback((days: number) => {
-    if (days !== currentTripLength && !panelLoading) {
+    const next = Math.min(Math.max(days, MIN_TRIP_DAYS), MAX_TRIP_DAYS - extraDays);
+    if (next !== currentTripLength && !isBusy) {
       setFinalPdfUrl(null);
       setPdfJobError(null);
-      setCurrentTripLength(days);
+      setCurrentTripLength(next);
+    }
+  }, [currentTripLength, extraDays, isBusy]);
+
+  const handleLegsChange = useCallback((next: TripLegDraft[]) => {
+    if (isBusy) return;
+    setFinalPdfUrl(null);
+    setPdfJobError(null);
+    setExtraLegs(next);
+  }, [isBusy]);
+
+  const handleStartDateChange = useCallback((date: string) => {
+    if (isBusy) return;
+    setFinalPdfUrl(null);
+    setPdfJobError(null);
+    setStartDate(date);
+  }, [isBusy]);
+
+  const handleHalfDayChange = useCallback((which: "arrival" | "departure", time: string) => {
+    if (isBusy) return;
+    setFinalPdfUrl(null);
+    setPdfJobError(null);
+    if (which === "arrival") setArrivalTime(time);
+    else setDepartureTime(time);
+  }, [isBusy]);
+
+  const handleProfileApply = useCallback((next: TravellerProfile) => {
+    if (isBusy) return;
+    setFinalPdfUrl(null);
+    setPdfJobError(null);
+    setProfile(next);
+    try {
+      window.localStorage.setItem(TRAVELLER_PROFILE_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage may be unavailable (private mode); the profile still applies for this session.
+    }
+  }, [isBusy]);
+
+  const handlePdfLayoutChange = useCallback((field: keyof PdfLayoutChoice, value: string) => {
+    setFinalPdfUrl(null);
+    setPdfLayout((prev) => ({ ...prev, [field]: value }));
+  }, []);
+
+  const handleDisplayCurrencyChange = useCallback((currency: string) => {
+    setFinalPdfUrl(null);
+    setDisplayCurrency(currency);
+    try {
+      if (currency) window.localStorage.setItem(DISPLAY_CURRENCY_STORAGE_KEY, currency);
+      else window.localStorage.removeItem(DISPLAY_CURRENCY_STORAGE_KEY);
+    } catch {
+      // Storage may be unavailable (private mode); the choice still applies for this session.
+    }
+  }, []);
+
+  const tripCost = useMemo(() => totalCost(itineraryData, displayCurrency), [itineraryData, displayCurrency]);
+
+  const legForDay = useCallback(
+    (dayIndex: number) => tripLegs.find((l) => dayIndex >= l.plannedFrom && dayIndex < l.startDay + l.days),
+    [tripLegs]
+  );
+
+  /** The day's city's places that none of that city's days visit yet. */
+  const alternativesFor = useCallback((dayIndex: number): string[] => {
+    const leg = legForDay(dayIndex);
+    if (!leg) return [];
+    const used = new Set(
+      itineraryData
+        .slice(leg.plannedFrom, leg.startDay + leg.days)
+        .flatMap((d) => (d.activities || []).map((a) => a.placeName.toLowerCase()))
+    );
+    return leg.placeNames.filter((n) => !used.has(n.toLowerCase()));
+  }, [legForDay, itineraryData]);
+
+  // Each edit is saved server-side as a new derived entry of that city's plan;
+  // keep its key so further edits build on it rather than on the original.
+  const applyEdit = useCallback(async (target: string, dayIndex: number, edit: ItineraryEditAction) => {
+    const leg = legForDay(dayIndex);
+    if (!leg?.cacheKey || isBusy) return;
+    setEditingTarget(target);
+    setEditError(null);
+    try {
+      const res = await fetch("/api/gemini-recommendations/edit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cacheKey: leg.cacheKey, cityName: leg.city, dayIndex: dayIndex - leg.plannedFrom, ...edit }),
+      });
+      const data = await res.json().catch(() => null) as { itinerary?: ItineraryDay[]; cacheKey?: string; error?: unknown } | null;
+      if (!res.ok || !data?.itinerary) {
+        throw new Error(typeof data?.error === "string" ? data.error : "Could not update the itinerary.");
+      }
+      // The server returns this city's days only; keep the trip-level tags.
+      const merged = itineraryData.slice();
+      data.itinerary.forEach((day, k) => {
+        const prev = merged[leg.plannedFrom + k];
+        merged[leg.plannedFrom + k] = { ...day, city: prev?.city, transfer: prev?.transfer };
+      });
+      const nextLegs = tripLegs.map((l) => (l === leg ? { ...l, cacheKey: data.cacheKey } : l));
+      setItineraryData(merged);
+      setTripLegs(nextLegs);
+      setFinalPdfUrl(null);
+      itineraryCacheRef.current.set(tripKey, { itinerary: merged, places: enrichedPlaces, legs: nextLegs });
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : "An unknown error occurred.");
+    } finally {
+      setEditingTarget(null);
     }
-  }, [currentTripLength, panelLoading]);
+  }, [legForDay, isBusy, itineraryData, tripLegs, enrichedPlaces, tripKey]);
 
   const findPlace = useCallback((name: string | undefined) => {
     if (!name) return undefined;
@@ -290,10 +705,24 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
         className="header-element flex min-w-[250px] items-center justify-center gap-2 rounded-full bg-gradient-to-r from-purple-500 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-md transition-transform hover:scale-105 hover:shadow-lg disabled:pointer-events-none disabled:opacity-60"
       >
         {isGeneratingPdf ? (
-          <>
-            <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-            <span>Generating...</span>
-          </>
+          <div className="flex w-full flex-col gap-1">
+            <span>
+              {pdfProgress.stage ? PDF_STAGE_LABELS[pdfProgress.stage] : pdfJobStatus === 'PENDING' ? "Queued" : "Starting"}
+              {pdfProgress.progress > 0 && ` · ${pdfProgress.progress}%`}
+            </span>
+            <div
+              className="h-1.5 w-full overflow-hidden rounded-full bg-white/25"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={pdfProgress.progress}
+            >
+              <div
+                className="h-full rounded-full bg-white transition-[width] duration-500"
+                style={{ width: `${pdfProgress.progress}%` }}
+              />
+            </div>
+          </div>
         ) : (
           "Generate Premium PDF Itinerary"
         )}
@@ -311,22 +740,41 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
         <header className="sticky top-0 z-20 flex flex-col border-b border-neutral-700/50 bg-neutral-900/80 p-3 backdrop-blur-md sm:p-4">
           <div className="flex w-full items-center justify-between">
             <div className="header-element flex items-center gap-1 rounded-full border border-neutral-700 bg-neutral-800 p-1">
-              {TRIP_LENGTH_OPTIONS.map((days) => (
+              <button
+                onClick={() => handleTripLengthChange(currentTripLength - 1)}
+                disabled={isBusy || currentTripLength <= MIN_TRIP_DAYS}
+                className="rounded-full px-2.5 py-1 text-sm font-semibold text-neutral-300 transition-colors hover:bg-neutral-700/50 disabled:cursor-not-allowed disabled:opacity-40"
+                aria-label="Fewer days"
+              >
+                −
+              </button>
+              <span className="min-w-[4.5rem] rounded-full bg-amber-400 px-3 py-1 text-center text-sm font-semibold text-black">
+                {currentTripLength} {currentTripLength === 1 ? "Day" : "Days"}
+              </span>
+              <button
+                onClick={() => handleTripLengthChange(currentTripLength + 1)}
+                disabled={isBusy || totalDays >= MAX_TRIP_DAYS}
+                className="rounded-full px-2.5 py-1 text-sm font-semibold text-neutral-300 transition-colors hover:bg-neutral-700/50 disabled:cursor-not-allowed disabled:opacity-40"
+                aria-label="More days"
+              >
+                +
+              </button>
+              {TRIP_LENGTH_PRESETS.map((days) => (
                 <button
                   key={days}
                   onClick={() => handleTripLengthChange(days)}
-                  disabled={panelLoading}
-                  className={`rounded-full px-3 py-1 text-sm font-semibold transition-colors duration-200 disabled:cursor-not-allowed ${currentTripLength === days ? "bg-amber-400 text-black" : "text-neutral-300 hover:bg-neutral-700/50"}`}
+                  disabled={isBusy || days + extraDays > MAX_TRIP_DAYS}
+                  className={`hidden rounded-full px-2.5 py-1 text-xs font-semibold transition-colors duration-200 disabled:cursor-not-allowed sm:block ${currentTripLength === days ? "text-amber-300" : "text-neutral-400 hover:bg-neutral-700/50"}`}
                 >
-                  {days} Days
+                  {days}d
                 </button>
               ))}
             </div>
             <h2 className="header-element absolute left-1/2 hidden -translate-x-1/2 font-serif text-lg text-white md:block">
-              Your <span className="text-amber-300">{safeCityName}</span> Itinerary
+              Your <span className="text-amber-300">{[safeCityName, ...activeLegs.map((l) => l.name)].join(" → ")}</span> Itinerary
             </h2>
             <div className="flex items-center gap-2">
-              {hasData && !panelLoading && renderPdfButton()}
+              {hasData && !isBusy && renderPdfButton()}
               <button
                 onClick={onClose}
                 className="header-element rounded-full p-2 text-neutral-300 transition-colors hover:bg-neutral-700 hover:text-white"
@@ -336,6 +784,116 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
               </button>
             </div>
           </div>
+          <div className="header-element mt-2 flex flex-wrap items-center gap-3 text-xs text-neutral-400">
+            <label className="flex items-center gap-1.5">
+              Start
+              <input
+                type="date"
+                value={startDate}
+                min={todayIsoDate()}
+                onChange={(e) => handleStartDateChange(e.target.value)}
+                disabled={isBusy}
+                className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 [color-scheme:dark] disabled:opacity-50"
+                aria-label="Trip start date (optional)"
+              />
+            </label>
+            <label className="flex items-center gap-1.5">
+              Arrive
+              <select
+                value={arrivalTime}
+                onChange={(e) => handleHalfDayChange("arrival", e.target.value)}
+                disabled={isBusy}
+                className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 disabled:opacity-50"
+              >
+                <option value="">Full first day</option>
+                {ARRIVAL_TIME_OPTIONS.map((t) => <option key={t} value={t}>from {t}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              Leave
+              <select
+                value={departureTime}
+                onChange={(e) => handleHalfDayChange("departure", e.target.value)}
+                disabled={isBusy}
+                className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 disabled:opacity-50"
+              >
+                <option value="">Full last day</option>
+                {DEPARTURE_TIME_OPTIONS.map((t) => <option key={t} value={t}>by {t}</option>)}
+              </select>
+            </label>
+            <TravellerProfileEditor profile={profile} disabled={isBusy} onApply={handleProfileApply} />
+            <label className="flex items-center gap-1.5">
+              Prices in
+              <select
+                value={displayCurrency}
+                onChange={(e) => handleDisplayCurrencyChange(e.target.value)}
+                disabled={isGeneratingPdf}
+                className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 disabled:opacity-50"
+              >
+                <option value="">Local currency</option>
+                {SUPPORTED_CURRENCIES.map((c) => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+            {pdfOptions && (
+              <>
+                <label className="flex items-center gap-1.5">
+                  PDF layout
+                  <select
+                    value={pdfLayout.template}
+                    onChange={(e) => handlePdfLayoutChange("template", e.target.value)}
+                    disabled={isGeneratingPdf}
+                    title={pdfOptions.templates.find((t) => t.id === pdfLayout.template)?.description}
+                    className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 disabled:opacity-50"
+                  >
+                    {pdfOptions.templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                </label>
+                <select
+                  value={pdfLayout.paper}
+                  onChange={(e) => handlePdfLayoutChange("paper", e.target.value)}
+                  disabled={isGeneratingPdf}
+                  aria-label="PDF paper size"
+                  className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 disabled:opacity-50"
+                >
+                  <option value="">Default paper</option>
+                  {pdfOptions.paperSizes.map((p) => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <select
+                  value={pdfLayout.orientation}
+                  onChange={(e) => handlePdfLayoutChange("orientation", e.target.value)}
+                  disabled={isGeneratingPdf}
+                  aria-label="PDF orientation"
+                  className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 capitalize text-neutral-200 disabled:opacity-50"
+                >
+                  <option value="">Default orientation</option>
+                  {pdfOptions.orientations.map((o) => <option key={o} value={o}>{o}</option>)}
+                </select>
+              </>
+            )}
+            {tripCost && tripCost.max > 0 && (
+              <span className="flex items-center gap-1.5 text-neutral-300" title="Estimated per-person spend on activities, food and local transport">
+                <Wallet size={12} className="text-amber-300" />
+                Trip ≈ {formatCostRange(tripCost.min, tripCost.max, tripCost.currency)}
+              </span>
+            )}
+          </div>
+          {currentCity && legCities.length > 0 && (
+            <div className="header-element mt-2 text-xs">
+              <TripLegsEditor
+                cities={legCities}
+                legs={extraLegs}
+                spareDays={MAX_TRIP_DAYS - totalDays}
+                maxLegs={MAX_TRIP_LEGS - 1}
+                disabled={isBusy}
+                onChange={handleLegsChange}
+              />
+            </div>
+          )}
+          {editError && (
+            <div className="mt-2 w-full rounded-md border border-red-500/50 bg-red-500/10 p-2 text-center text-sm text-red-300">
+              Edit Failed: {editError}
+            </div>
+          )}
           {pdfJobError && (
             <div className="mt-2 w-full rounded-md border border-red-500/50 bg-red-500/10 p-2 text-center text-sm text-red-300">
               PDF Generation Failed: {pdfJobError}
@@ -346,7 +904,7 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
           {panelLoading ? (
             <div className="flex h-full flex-col items-center justify-center pt-10 text-neutral-500">
               <div className="h-10 w-10 animate-spin rounded-full border-4 border-amber-400 border-t-transparent" />
-              <p className="mt-4 font-semibold">Crafting your {currentTripLength}-day itinerary...</p>
+              <p className="mt-4 font-semibold">Crafting your {totalDays}-day itinerary...</p>
               <p className="mt-1 text-sm text-neutral-600">This can take a moment.</p>
             </div>
           ) : error ? (
@@ -362,8 +920,39 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
             <div className="space-y-6 sm:space-y-10">
               {itineraryData.map((day, i) => {
                 const altText = String(day.title ?? `Day ${i + 1}`).replace(/"/g, "'");
+                const halfDayLabel = describeHalfDay(day);
+                const dayLeg = legForDay(i);
+                const legStart = tripLegs.length > 1 ? tripLegs.find((l) => l.startDay === i) : undefined;
+                const cityHeader = legStart && (
+                  <h3 className="border-b border-neutral-700/60 pb-2 font-serif text-lg text-white sm:text-2xl">
+                    <span className="text-amber-300">{legStart.city}</span>
+                    <span className="ml-2 text-sm text-neutral-400">· {legStart.days} {legStart.days === 1 ? "day" : "days"}</span>
+                  </h3>
+                );
+                const TransferIcon = day.transfer ? TRANSFER_ICONS[day.transfer.mode] : null;
+                const WeatherIcon = day.weather ? WEATHER_ICONS[day.weather.condition] : null;
+                const dayCost = totalCost([day], displayCurrency);
+                if (day.travelOnly && day.transfer && TransferIcon) {
+                  return (
+                    <div key={`travel-${i}`} className="day-block space-y-4">
+                      {cityHeader}
+                      <div className="flex items-center gap-3 rounded-xl border border-neutral-700 bg-neutral-800/40 p-4">
+                        <TransferIcon size={20} className="shrink-0 text-amber-300" />
+                        <div>
+                          <span className="text-xs font-bold uppercase tracking-widest text-amber-300">
+                            Day {i + 1}{day.date ? ` · ${formatDayDate(day.date)}` : ""} · Travel day
+                          </span>
+                          <p className="text-sm text-neutral-200">
+                            {describeTransfer(day.transfer)}, leaving at {day.transfer.departTime} and arriving around {day.transfer.arriveTime}.
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                }
                 return (
                   <div key={day.title ?? `day-${i}`} className="day-block space-y-4 sm:space-y-5">
+                    {cityHeader}
                     <div className="relative h-40 w-full overflow-hidden rounded-xl border-2 border-amber-300/20 sm:h-56 sm:rounded-2xl md:h-72">
                       {day.dayPhotoUrl ? (
                         <Image src={day.dayPhotoUrl} alt={altText} fill unoptimized className="object-cover" priority={i === 0} sizes="(max-width: 768px) 100vw, 50vw" />
@@ -371,19 +960,94 @@ const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
                         <div className="flex h-full w-full items-center justify-center bg-neutral-800/40"><span className="text-xs text-neutral-400">No photo available</span></div>
                       )}
                       <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent" />
+                      {dayLeg?.cacheKey && (
+                        <button
+                          onClick={() => applyEdit(`day-${i}`, i, { action: "regenerate-day" })}
+                          disabled={isBusy}
+                          className="absolute right-2 top-2 flex items-center gap-1.5 rounded-full bg-black/60 px-2.5 py-1 text-xs font-semibold text-neutral-200 transition-colors hover:bg-black/80 disabled:cursor-not-allowed disabled:opacity-50"
+                          title="Plan this day again, keeping the rest of the trip"
+                        >
+                          <RefreshCw size={12} className={editingTarget === `day-${i}` ? "animate-spin" : undefined} />
+                          New day
+                        </button>
+                      )}
                       <div className="absolute bottom-0 left-0 p-3 sm:p-5">
-                        <span className="text-xs font-bold uppercase tracking-widest text-amber-300">Day {i + 1}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs font-bold uppercase tracking-widest text-amber-300">
+                            Day {i + 1}{day.date ? ` · ${formatDayDate(day.date)}` : ""}
+                          </span>
+                          {day.holiday && (
+                            <span
+                              className="flex items-center gap-1 rounded-full bg-rose-900/80 px-2 py-0.5 text-[10px] font-semibold tracking-wider text-rose-100"
+                              title="Public holiday: some places may close or be busy"
+                            >
+                              <PartyPopper size={11} /> {day.holiday}
+                            </span>
+                          )}
+                          {halfDayLabel && (
+                            <span className="rounded-full bg-black/60 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider text-neutral-200">{halfDayLabel}</span>
+                          )}
+                          {typeof day.walkingKm === "number" && day.walkingKm > 0 && (
+                            <span
+                              className="flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-[10px] font-semibold tracking-wider text-neutral-200"
+                              title={day.walkingMinutes ? `About ${day.walkingMinutes} minutes on foot between stops` : undefined}
+                            >
+                              <Footprints size={11} /> {day.walkingKm} km
+                            </span>
+                          )}
+                          {day.weather && WeatherIcon && (
+                            <span
+                              className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-semibold tracking-wider ${day.weather.wet ? "bg-sky-900/80 text-sky-100" : "bg-black/60 text-neutral-200"}`}
+                              title={`${day.weather.condition}, ${day.weather.precipitationChance}% chance of rain`}
+                            >
+                              <WeatherIcon size={11} /> {day.weather.tempMinC}–{day.weather.tempMaxC}°
+                            </span>
+                          )}
+                          {day.transfer && TransferIcon && (
+                            <span className="flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-[10px] font-semibold tracking-wider text-neutral-200">
+                              <TransferIcon size={11} /> {describeTransfer(day.transfer)}, arrive {day.transfer.arriveTime}
+                            </span>
+                          )}
+                        </div>
                         <h3 className="mt-0.5 font-serif text-base leading-tight text-white sm:text-xl">{day.title ?? `Highlights`}</h3>
                       </div>
                     </div>
+                    {dayCost && (
+                      <p className="flex items-center gap-1.5 text-xs text-neutral-400">
+                        <Wallet size={12} className="text-amber-300" />
+                        <span className="font-semibold text-neutral-300">Estimated spend:</span>
+                        {formatCostRange(dayCost.min, dayCost.max, dayCost.currency)} per person
+                      </p>
+                    )}
+                    {day.indoorAlternatives?.length ? (
+                      <p className="text-xs text-neutral-400">
+                        <span className="font-semibold text-neutral-300">If the weather turns:</span> {day.indoorAlternatives.join(" · ")}
+                      </p>
+                    ) : null}
                     <div className="space-y-4 sm:space-y-5">
                       {day.activities?.map((activity, ai) => (
-                        <ActivityCard key={`${i}-${ai}-${activity.title || "untitled"}-${activity.placeName || "unknown"}`} activity={activity} place={findPlace(activity.placeName)} onZoomToLocation={onZoomToLocation} />
+                        <ActivityCard
+                          key={`${i}-${ai}-${activity.title || "untitled"}-${activity.placeName || "unknown"}`}
+                          activity={activity}
+                          place={findPlace(activity.placeName)}
+                          onZoomToLocation={onZoomToLocation}
+                          alternatives={dayLeg?.cacheKey ? alternativesFor(i) : undefined}
+                          onSwap={(placeName) => applyEdit(`activity-${i}-${ai}`, i, { action: "swap-activity", activityIndex: ai, placeName })}
+                          isSwapping={editingTarget === `activity-${i}-${ai}`}
+                          swapDisabled={isBusy}
+                          displayCurrency={displayCurrency || undefined}
+                        />
                       ))}
                     </div>
                   </div>
                 );
               })}
+              {isStreaming && Array.from({ length: Math.max(0, expectedDays - itineraryData.length) }, (_, k) => (
+                <div key={`pending-${k}`} className="flex h-24 items-center gap-3 rounded-xl border border-dashed border-neutral-700 bg-neutral-800/30 px-4 text-sm text-neutral-500">
+                  {k === 0 && <div className="h-4 w-4 animate-spin rounded-full border-2 border-amber-400 border-t-transparent" />}
+                  <span>Day {itineraryData.length + k + 1} — {k === 0 ? "planning..." : "queued"}</span>
+                </div>
+              ))}
             </div>
           )}
         </main>
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import {
+  BUDGET_TIERS,
+  DIETARY_OPTIONS,
+  INTEREST_OPTIONS,
+  MOBILITY_OPTIONS,
+  PACE_OPTIONS,
+  canonicalProfile,
+  isDefaultProfile,
+  type TravellerProfile,
+} from "@/lib/travellerProfile";
+
+interface TravellerProfileEditorProps {
+  profile: TravellerProfile;
+  disabled?: boolean;
+  onApply: (profile: TravellerProfile) => void;
+}
+
+const MOBILITY_LABELS: Record<TravellerProfile["mobility"], string> = {
+  none: "No mobility needs",
+  "limited-walking": "Limited walking",
+  wheelchair: "Wheelchair access",
+};
+
+const toggle = <T,>(list: readonly T[], value: T): T[] =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+const chipClass = (active: boolean) =>
+  `rounded-full border px-2.5 py-1 text-xs capitalize transition-colors ${
+    active
+      ? "border-amber-400 bg-amber-400/20 text-amber-200"
+      : "border-neutral-700 text-neutral-400 hover:bg-neutral-700/50"
+  }`;
+
+/**
+ * Collapsible editor for the traveller profile. Edits stay in a draft until
+ * Apply so the itinerary is only regenerated once per change set.
+ */
+const TravellerProfileEditor: React.FC<TravellerProfileEditorProps> = ({ profile, disabled, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TravellerProfile>(profile);
+
+  useEffect(() => {
+    setDraft(profile);
+  }, [profile]);
+
+  const isDirty = JSON.stringify(canonicalProfile(draft)) !== JSON.stringify(canonicalProfile(profile));
+  const update = (patch: Partial<TravellerProfile>) => setDraft((d) => ({ ...d, ...patch }));
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex items-center gap-1.5 rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 hover:bg-neutral-700"
+        aria-expanded={open}
+      >
+        <SlidersHorizontal size={12} />
+        {isDefaultProfile(profile) ? "Personalise" : "Your profile"}
+      </button>
+      {open && (
+        <fieldset disabled={disabled} className="mt-3 space-y-3 rounded-lg border border-neutral-700/60 bg-neutral-800/40 p-3 disabled:opacity-50">
+          <div>
+            <p className="mb-1.5 font-semibold text-neutral-300">Interests</p>
+            <div className="flex flex-wrap gap-1.5">
+              {INTEREST_OPTIONS.map((interest) => (
+                <button
+                  key={interest}
+                  type="button"
+                  onClick={() => update({ interests: toggle(draft.interests, interest) })}
+                  className={chipClass(draft.interests.includes(interest))}
+                >
+                  {interest}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="mb-1.5 font-semibold text-neutral-300">Dietary needs</p>
+            <div className="flex flex-wrap gap-1.5">
+              {DIETARY_OPTIONS.map((need) => (
+                <button
+                  key={need}
+                  type="button"
+                  onClick={() => update({ dietary: toggle(draft.dietary, need) })}
+                  className={chipClass(draft.dietary.includes(need))}
+                >
+                  {need}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5">
+              Budget
+              <select
+                value={draft.budget}
+                onChange={(e) => update({ budget: e.target.value as TravellerProfile["budget"] })}
+                className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 capitalize text-neutral-200"
+              >
+                {BUDGET_TIERS.map((tier) => <option key={tier} value={tier}>{tier}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-1 rounded-full border border-neutral-700 bg-neutral-800 p-0.5">
+              {PACE_OPTIONS.map((pace) => (
+                <button
+                  key={pace}
+                  type="button"
+                  onClick={() => update({ pace })}
+                  className={`rounded-full px-2.5 py-0.5 capitalize transition-colors ${draft.pace === pace ? "bg-amber-400 text-black" : "text-neutral-400 hover:bg-neutral-700/50"}`}
+                >
+                  {pace}
+                </button>
+              ))}
+            </div>
+            <select
+              value={draft.mobility}
+              onChange={(e) => update({ mobility: e.target.value as TravellerProfile["mobility"] })}
+              className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200"
+              aria-label="Mobility"
+            >
+              {MOBILITY_OPTIONS.map((m) => <option key={m} value={m}>{MOBILITY_LABELS[m]}</option>)}
+            </select>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={draft.withChildren}
+                onChange={(e) => update({ withChildren: e.target.checked })}
+                className="accent-amber-400"
+              />
+              Travelling with children
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => { onApply(canonicalProfile(draft)); setOpen(false); }}
+              disabled={!isDirty}
+              className="rounded-full bg-amber-400 px-3 py-1 font-semibold text-black disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Apply
+            </button>
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+};
+
+export default TravellerProfileEditor;
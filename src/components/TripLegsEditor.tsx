@@ -0,0 +1,83 @@
+"use client";
+
+import React from "react";
+import { ArrowRight, X } from "lucide-react";
+
+export interface TripLegDraft {
+  name: string;
+  lat: number;
+  lng: number;
+  country?: string;
+  days: number;
+}
+
+interface TripLegsEditorProps {
+  /** Cities that can be added; the trip's first city is already excluded. */
+  cities: { name: string; lat: number; lng: number; country?: string }[];
+  legs: TripLegDraft[];
+  /** Days still free under the trip-wide maximum. */
+  spareDays: number;
+  maxLegs: number;
+  disabled?: boolean;
+  onChange: (legs: TripLegDraft[]) => void;
+}
+
+/** Extra cities visited after the current one, each with its own day count. */
+const TripLegsEditor: React.FC<TripLegsEditorProps> = ({ cities, legs, spareDays, maxLegs, disabled, onChange }) => {
+  const available = cities.filter((c) => !legs.some((l) => l.name === c.name));
+  const setDays = (index: number, days: number) =>
+    onChange(legs.map((l, i) => (i === index ? { ...l, days } : l)));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {legs.map((leg, i) => (
+        <span key={leg.name} className="flex items-center gap-1 rounded-full border border-neutral-700 bg-neutral-800 py-0.5 pl-2 pr-1 text-neutral-200">
+          <ArrowRight size={12} className="text-amber-300" />
+          {leg.name}
+          <button
+            onClick={() => setDays(i, leg.days - 1)}
+            disabled={disabled || leg.days <= 1}
+            className="rounded-full px-1.5 hover:bg-neutral-700 disabled:opacity-40"
+            aria-label={`Fewer days in ${leg.name}`}
+          >
+            −
+          </button>
+          <span className="min-w-[1.5rem] text-center font-semibold text-amber-300">{leg.days}d</span>
+          <button
+            onClick={() => setDays(i, leg.days + 1)}
+            disabled={disabled || spareDays <= 0}
+            className="rounded-full px-1.5 hover:bg-neutral-700 disabled:opacity-40"
+            aria-label={`More days in ${leg.name}`}
+          >
+            +
+          </button>
+          <button
+            onClick={() => onChange(legs.filter((_, j) => j !== i))}
+            disabled={disabled}
+            className="rounded-full p-0.5 text-neutral-400 hover:bg-neutral-700 hover:text-white disabled:opacity-40"
+            aria-label={`Remove ${leg.name}`}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      {legs.length < maxLegs && spareDays > 0 && available.length > 0 && (
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => {
+            const city = available.find((c) => c.name === e.target.value);
+            if (city) onChange([...legs, { ...city, days: Math.min(2, spareDays) }]);
+          }}
+          className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-neutral-200 disabled:opacity-50"
+          aria-label="Add another city"
+        >
+          <option value="" disabled>+ Add city</option>
+          {available.map((c) => <option key={c.name} value={c.name}>{c.name}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default TripLegsEditor;
@@ -0,0 +1,52 @@
+// src/lib/adminAuth.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { createHash, timingSafeEqual } from 'crypto';
+
+const ADMIN_TOKEN_SECRET = 'projects/934477100130/secrets/citybreaker-admin-token/versions/latest';
+
+let cachedAdminToken: string | null = null;
+
+/** ADMIN_API_TOKEN when set (local dev), otherwise the Secret Manager copy. */
+async function getAdminToken(): Promise<string> {
+  if (cachedAdminToken) return cachedAdminToken;
+  if (process.env.ADMIN_API_TOKEN) {
+    cachedAdminToken = process.env.ADMIN_API_TOKEN;
+    return cachedAdminToken;
+  }
+  const client = new SecretManagerServiceClient();
+  const [version] = await client.accessSecretVersion({ name: ADMIN_TOKEN_SECRET });
+  const token = version.payload?.data?.toString().trim();
+  if (!token) throw new Error(`Secret payload is empty for ${ADMIN_TOKEN_SECRET}`);
+  cachedAdminToken = token;
+  return token;
+}
+
+/** Compares digests so neither the length nor the content leaks through timing. */
+function sameToken(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Checks the `Authorization: Bearer <token>` header. Returns the response to
+ * send when the caller is not an admin, or null to carry on.
+ */
+export async function rejectUnlessAdmin(req: NextRequest): Promise<NextResponse | null> {
+  const header = req.headers.get('authorization') ?? '';
+  const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!given) {
+    return NextResponse.json({ error: 'Admin token required.' }, { status: 401 });
+  }
+  let expected: string;
+  try {
+    expected = await getAdminToken();
+  } catch (err) {
+    console.error('ADMIN: Could not load the admin token', err);
+    return NextResponse.json({ error: 'Admin access is not configured.' }, { status: 503 });
+  }
+  if (!sameToken(given, expected)) {
+    return NextResponse.json({ error: 'Invalid admin token.' }, { status: 403 });
+  }
+  return null;
+}
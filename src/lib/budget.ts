@@ -0,0 +1,110 @@
+// src/lib/budget.ts
+import { z } from 'zod';
+import exchangeRateData from '@/data/exchangeRates.json';
+
+/* ==============================
+ * Cost Estimates
+ * ============================== */
+
+export const COST_CATEGORIES = ['entry', 'food', 'transport'] as const;
+export type CostCategory = (typeof COST_CATEGORIES)[number];
+
+/** Per-person cost of one activity, in the currency it is paid in. */
+export const CostEstimateSchema = z
+  .object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+    currency: z.string().trim().regex(/^[A-Z]{3}$/, 'must be an ISO 4217 code such as "EUR"'),
+    category: z.enum(COST_CATEGORIES),
+  })
+  .refine(cost => cost.max >= cost.min, { message: 'max must not be below min', path: ['max'] });
+
+export type CostEstimate = z.infer<typeof CostEstimateSchema>;
+
+export interface CostTotal {
+  min: number;
+  max: number;
+  currency: string;
+  byCategory: Partial<Record<CostCategory, { min: number; max: number }>>;
+}
+
+export const DISPLAY_CURRENCY_STORAGE_KEY = 'citybreaker.displayCurrency.v1';
+
+/* ==============================
+ * Exchange Rates (bundled table)
+ * ============================== */
+
+const RATES: Record<string, number> = exchangeRateData.rates;
+
+/** Currencies the table can convert between, for the currency picker. */
+export const SUPPORTED_CURRENCIES = Object.keys(RATES).sort();
+export const EXCHANGE_RATES_AS_OF = exchangeRateData.asOf;
+
+export function isSupportedCurrency(code: unknown): code is string {
+  return typeof code === 'string' && code in RATES;
+}
+
+/** Converts through the table's base currency; undefined when either side is unknown. */
+export function convertAmount(amount: number, from: string, to: string): number | undefined {
+  if (from === to) return amount;
+  if (!(from in RATES) || !(to in RATES)) return undefined;
+  return (amount / RATES[from]) * RATES[to];
+}
+
+/** The estimate in `currency`, or as given when it cannot be converted. */
+export function convertCost(cost: CostEstimate, currency: string): CostEstimate {
+  const min = convertAmount(cost.min, cost.currency, currency);
+  const max = convertAmount(cost.max, cost.currency, currency);
+  if (min === undefined || max === undefined) return cost;
+  return { ...cost, min, max, currency };
+}
+
+/**
+ * Sums estimates in `currency`. Estimates in currencies the table does not
+ * know are left out rather than added at face value.
+ */
+export function sumCosts(costs: (CostEstimate | undefined)[], currency: string): CostTotal {
+  const total: CostTotal = { min: 0, max: 0, currency, byCategory: {} };
+  for (const cost of costs) {
+    if (!cost) continue;
+    const converted = convertCost(cost, currency);
+    if (converted.currency !== currency) continue;
+    total.min += converted.min;
+    total.max += converted.max;
+    const bucket = (total.byCategory[cost.category] ??= { min: 0, max: 0 });
+    bucket.min += converted.min;
+    bucket.max += converted.max;
+  }
+  return total;
+}
+
+/** The currency most of the estimates are in; the natural one for totals. */
+export function mainCurrency(costs: (CostEstimate | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const cost of costs) if (cost) counts.set(cost.currency, (counts.get(cost.currency) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/* ==============================
+ * Formatting
+ * ============================== */
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: amount >= 100 || amount === 0 ? 0 : 2,
+      minimumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
+
+/** "£12–£18", "Free" or "£25". */
+export function formatCostRange(min: number, max: number, currency: string): string {
+  if (max === 0) return 'Free';
+  if (Math.round(min) === Math.round(max)) return formatMoney(max, currency);
+  return `${formatMoney(min, currency)}–${formatMoney(max, currency)}`;
+}
@@ -0,0 +1,94 @@
+// src/lib/cacheSchema.ts
+import { timestampMs } from '@/lib/cacheStore';
+import type { FirestoreItineraryCacheV2, PlaceEnrichmentDoc } from '@/lib/firestoreCache';
+
+/* ==============================
+ * Schema Versions
+ * ============================== */
+
+/**
+ * Bump when a change to `ItineraryDayCache`, `EnrichedPlace` or the document
+ * around them would break readers of older entries, and register the
+ * upgrade below. Reads upgrade on the fly; `migrateCacheDocuments` rewrites
+ * stored entries so the upgrades can eventually be dropped.
+ */
+export const ITINERARY_CACHE_VERSION = 4;
+export const PLACE_CACHE_VERSION = 1;
+
+type StoredDoc = Record<string, unknown>;
+
+/** Upgrades a document from version `n` (its key) to `n + 1`. */
+type Migration = (doc: StoredDoc) => StoredDoc;
+
+/* ==============================
+ * Itinerary Migrations
+ * ============================== */
+
+const ITINERARY_MIGRATIONS: Record<number, Migration> = {
+  // v3: `createdAt` is always set; older entries could carry only `updatedAt`.
+  2: doc => {
+    const updatedMs = timestampMs(doc.updatedAt);
+    return doc.createdAt || !updatedMs ? doc : { ...doc, createdAt: new Date(updatedMs).toISOString() };
+  },
+  // v4: `meta.source` and `meta.shape` are always set ('' for an unshaped
+  // trip), so near-duplicate lookups can filter on them in the query.
+  3: doc => {
+    const meta = (doc.meta ?? {}) as StoredDoc;
+    return { ...doc, meta: { ...meta, source: meta.source ?? 'generated', shape: meta.shape ?? '' } };
+  },
+};
+
+/* ==============================
+ * Place Migrations
+ * ============================== */
+
+const PLACE_MIGRATIONS: Record<number, Migration> = {};
+
+/* ==============================
+ * Upgrading
+ * ============================== */
+
+export type UpgradeResult<T> =
+  | { status: 'current'; doc: T }
+  | { status: 'upgraded'; doc: T; from: number }
+  /** `newer`: written by a later deploy rather than too old to upgrade. */
+  | { status: 'unreadable'; version: number; newer: boolean };
+
+function upgrade<T>(
+  doc: T,
+  version: number,
+  current: number,
+  migrations: Record<number, Migration>,
+  stamp: (doc: StoredDoc, version: number) => StoredDoc
+): UpgradeResult<T> {
+  if (version === current) return { status: 'current', doc };
+  // Too old with no path forward, or written by a newer deploy: both are misses.
+  if (version > current) return { status: 'unreadable', version, newer: true };
+  let next = doc as StoredDoc;
+  for (let v = version; v < current; v++) {
+    const migrate = migrations[v];
+    if (!migrate) return { status: 'unreadable', version, newer: false };
+    next = migrate(next);
+  }
+  return { status: 'upgraded', doc: stamp(next, current) as T, from: version };
+}
+
+export function itineraryDocVersion(doc: FirestoreItineraryCacheV2): number {
+  return doc.meta?.cacheVersion ?? 1;
+}
+
+export function upgradeItineraryDoc(doc: FirestoreItineraryCacheV2): UpgradeResult<FirestoreItineraryCacheV2> {
+  return upgrade(doc, itineraryDocVersion(doc), ITINERARY_CACHE_VERSION, ITINERARY_MIGRATIONS, (d, v) => ({
+    ...d,
+    meta: { ...(d.meta as StoredDoc | undefined), cacheVersion: v },
+  }));
+}
+
+/** Place docs from before versioning are version 1. */
+export function placeDocVersion(doc: PlaceEnrichmentDoc): number {
+  return doc.schemaVersion ?? 1;
+}
+
+export function upgradePlaceDoc(doc: PlaceEnrichmentDoc): UpgradeResult<PlaceEnrichmentDoc> {
+  return upgrade(doc, placeDocVersion(doc), PLACE_CACHE_VERSION, PLACE_MIGRATIONS, (d, v) => ({ ...d, schemaVersion: v }));
+}
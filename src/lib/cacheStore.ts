@@ -0,0 +1,406 @@
+// src/lib/cacheStore.ts
+import {
+  Firestore,
+  FieldPath,
+  FieldValue,
+  Timestamp,
+  getFirestore as getAdminFirestore,
+  type Query,
+} from 'firebase-admin/firestore';
+import {
+  getApps,
+  initializeApp,
+  App,
+  applicationDefault,
+  AppOptions,
+} from 'firebase-admin/app';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { createHash } from 'crypto';
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+
+/* ==============================
+ * Store Interface
+ * ============================== */
+
+/**
+ * What a backend hands back for a time it stored: Firestore returns its own
+ * Timestamp, memory keeps the Date, disk the ISO string. Read with `timestampMs`.
+ */
+export type StoredTimestamp = Timestamp | Date | string;
+
+/**
+ * A document store holding the itinerary cache, place enrichments and PDF
+ * jobs. Documents are plain JSON-like objects addressed by collection and id.
+ */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(collection: string, id: string): Promise<T | null>;
+  /** Results line up with `ids`; missing documents are null. */
+  getMany<T>(collection: string, ids: string[]): Promise<(T | null)[]>;
+  /** Replaces the whole document. */
+  set(collection: string, id: string, doc: object): Promise<void>;
+  /** Writes several documents together, in one batch where the backend has them. */
+  setMany(collection: string, docs: { id: string; doc: object }[]): Promise<void>;
+  /** Shallow-merges into an existing document; throws when there is none. */
+  update(collection: string, id: string, patch: object): Promise<void>;
+  /**
+   * Adds to numeric fields and overwrites the fields in `set`, creating the
+   * document if needed. Concurrent increments are not lost on Firestore.
+   */
+  increment(collection: string, id: string, counts: Record<string, number>, set?: object): Promise<void>;
+  /**
+   * Documents whose fields equal every value in `where` (dotted paths reach
+   * nested fields), in id order. Pass the last id seen as `startAfter` to page.
+   */
+  find<T>(collection: string, where: CacheFilter, limit: number, startAfter?: string): Promise<{ id: string; doc: T }[]>;
+  /** Deletes the documents; missing ids are ignored. */
+  delete(collection: string, ids: string[]): Promise<void>;
+  /**
+   * Compare-and-set: `next` sees the current document (null when there is
+   * none) and returns the replacement, or null to leave it alone. True when
+   * it was written. Atomic on Firestore, so only one of several concurrent
+   * claims wins.
+   */
+  claim<T>(collection: string, id: string, next: (current: T | null) => object | null): Promise<boolean>;
+}
+
+export type CacheFilter = Record<string, string | number>;
+
+function fieldAt(doc: object, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    doc
+  );
+}
+
+function matches(doc: object, where: CacheFilter): boolean {
+  return Object.entries(where).every(([fieldPath, value]) => fieldAt(doc, fieldPath) === value);
+}
+
+function addCounts(existing: object | null, counts: Record<string, number>, set: object = {}): object {
+  const next: Record<string, unknown> = { ...existing, ...set };
+  for (const [field, by] of Object.entries(counts)) {
+    const current = next[field];
+    next[field] = (typeof current === 'number' ? current : 0) + by;
+  }
+  return next;
+}
+
+/** Milliseconds since the epoch, or 0 when the value is missing or unreadable. */
+export function timestampMs(value: unknown): number {
+  let ms = 0;
+  if (value instanceof Date) ms = value.getTime();
+  else if (typeof value === 'string') ms = new Date(value).getTime();
+  else if (typeof value === 'number') ms = value;
+  else if (value && typeof (value as Timestamp).toMillis === 'function') ms = (value as Timestamp).toMillis();
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+/* ==============================
+ * Firestore
+ * ============================== */
+
+const PROJECT_ID_SECRET = 'projects/934477100130/secrets/citybreaker-project-id/versions/latest';
+const FIRESTORE_BATCH_LIMIT = 500;
+
+let firestore: Firestore | null = null;
+let initPromise: Promise<Firestore> | null = null;
+let secretsClient: SecretManagerServiceClient | null = null;
+
+async function fetchProjectIdFromSecret(): Promise<string> {
+  if (!secretsClient) secretsClient = new SecretManagerServiceClient();
+  const [version] = await secretsClient.accessSecretVersion({ name: PROJECT_ID_SECRET });
+  const raw = version.payload?.data?.toString();
+  if (!raw) throw new Error(`Secret payload is empty for ${PROJECT_ID_SECRET}`);
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const id = parsed['projectId'] || parsed['project_id'];
+    if (typeof id === 'string' && id.trim()) return id.trim();
+  } catch { /* Not JSON, fall through */ }
+  const trimmed = raw.trim();
+  if (!trimmed) throw new Error(`Secret ${PROJECT_ID_SECRET} resolved to empty string`);
+  return trimmed;
+}
+
+async function ensureFirestore(): Promise<Firestore> {
+  if (firestore) return firestore;
+  if (initPromise) return initPromise;
+  initPromise = (async () => {
+    const existing = getApps();
+    if (existing.length > 0) {
+      firestore = getAdminFirestore(existing[0]);
+      return firestore;
+    }
+    const projectId = await fetchProjectIdFromSecret();
+    const opts: AppOptions = { credential: applicationDefault(), projectId };
+    const app: App = initializeApp(opts);
+    const db = getAdminFirestore(app);
+    db.settings({ ignoreUndefinedProperties: true });
+    console.log(`FIRESTORE: Initialized via Secret Manager. project=${projectId}`);
+    firestore = db;
+    return db;
+  })();
+  return initPromise;
+}
+
+export const firestoreCacheStore: CacheStore = {
+  name: 'firestore',
+  async get<T>(collection: string, id: string) {
+    const db = await ensureFirestore();
+    const snap = await db.collection(collection).doc(id).get();
+    return snap.exists ? (snap.data() as T) : null;
+  },
+  async getMany<T>(collection: string, ids: string[]) {
+    if (!ids.length) return [];
+    const db = await ensureFirestore();
+    const snaps = await db.getAll(...ids.map(id => db.collection(collection).doc(id)));
+    return snaps.map(snap => (snap.exists ? (snap.data() as T) : null));
+  },
+  async set(collection, id, doc) {
+    const db = await ensureFirestore();
+    await db.collection(collection).doc(id).set(doc);
+  },
+  async setMany(collection, docs) {
+    const db = await ensureFirestore();
+    for (let i = 0; i < docs.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = db.batch();
+      for (const { id, doc } of docs.slice(i, i + FIRESTORE_BATCH_LIMIT)) batch.set(db.collection(collection).doc(id), doc);
+      await batch.commit();
+    }
+  },
+  async update(collection, id, patch) {
+    const db = await ensureFirestore();
+    await db.collection(collection).doc(id).update(patch);
+  },
+  async increment(collection, id, counts, set = {}) {
+    const db = await ensureFirestore();
+    const increments = Object.fromEntries(Object.entries(counts).map(([field, by]) => [field, FieldValue.increment(by)]));
+    await db.collection(collection).doc(id).set({ ...set, ...increments }, { merge: true });
+  },
+  async find<T>(collection: string, where: CacheFilter, limit: number, startAfter?: string) {
+    const db = await ensureFirestore();
+    let query: Query = db.collection(collection);
+    for (const [fieldPath, value] of Object.entries(where)) query = query.where(fieldPath, '==', value);
+    query = query.orderBy(FieldPath.documentId());
+    if (startAfter !== undefined) query = query.startAfter(startAfter);
+    const snap = await query.limit(limit).get();
+    return snap.docs.map(d => ({ id: d.id, doc: d.data() as T }));
+  },
+  async delete(collection, ids) {
+    const db = await ensureFirestore();
+    for (let i = 0; i < ids.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = db.batch();
+      for (const id of ids.slice(i, i + FIRESTORE_BATCH_LIMIT)) batch.delete(db.collection(collection).doc(id));
+      await batch.commit();
+    }
+  },
+  async claim<T>(collection: string, id: string, next: (current: T | null) => object | null) {
+    const db = await ensureFirestore();
+    const ref = db.collection(collection).doc(id);
+    return db.runTransaction(async tx => {
+      const snap = await tx.get(ref);
+      const doc = next(snap.exists ? (snap.data() as T) : null);
+      if (!doc) return false;
+      tx.set(ref, doc);
+      return true;
+    });
+  },
+};
+
+/* ==============================
+ * In-Memory (tests, offline dev)
+ * ============================== */
+
+/** Per-process store; documents are copied in and out so callers cannot alias them. */
+export function createMemoryCacheStore(): CacheStore {
+  const collections = new Map<string, Map<string, object>>();
+  const docsOf = (collection: string) => {
+    let docs = collections.get(collection);
+    if (!docs) collections.set(collection, (docs = new Map()));
+    return docs;
+  };
+  const read = <T>(collection: string, id: string): T | null => {
+    const doc = docsOf(collection).get(id);
+    return doc ? (structuredClone(doc) as T) : null;
+  };
+  return {
+    name: 'memory',
+    async get<T>(collection: string, id: string) {
+      return read<T>(collection, id);
+    },
+    async getMany<T>(collection: string, ids: string[]) {
+      return ids.map(id => read<T>(collection, id));
+    },
+    async set(collection, id, doc) {
+      docsOf(collection).set(id, structuredClone(doc));
+    },
+    async setMany(collection, docs) {
+      for (const { id, doc } of docs) docsOf(collection).set(id, structuredClone(doc));
+    },
+    async update(collection, id, patch) {
+      const existing = docsOf(collection).get(id);
+      if (!existing) throw new Error(`No document ${collection}/${id} to update`);
+      docsOf(collection).set(id, { ...existing, ...structuredClone(patch) });
+    },
+    async increment(collection, id, counts, set) {
+      docsOf(collection).set(id, addCounts(docsOf(collection).get(id) ?? null, counts, structuredClone(set)));
+    },
+    async find<T>(collection: string, where: CacheFilter, limit: number, startAfter?: string) {
+      const docs = docsOf(collection);
+      const ids = [...docs.keys()].filter(id => startAfter === undefined || id > startAfter).sort();
+      const found: { id: string; doc: T }[] = [];
+      for (const id of ids) {
+        if (found.length >= limit) break;
+        const doc = docs.get(id)!;
+        if (matches(doc, where)) found.push({ id, doc: structuredClone(doc) as T });
+      }
+      return found;
+    },
+    async delete(collection, ids) {
+      for (const id of ids) docsOf(collection).delete(id);
+    },
+    async claim<T>(collection: string, id: string, next: (current: T | null) => object | null) {
+      const doc = next(read<T>(collection, id));
+      if (!doc) return false;
+      docsOf(collection).set(id, structuredClone(doc));
+      return true;
+    },
+  };
+}
+
+/* ==============================
+ * JSON Files on Disk (local dev)
+ * ============================== */
+
+/** Longer ids (long Unicode place names) are stored under a hash instead. */
+const MAX_FILENAME_ID_LENGTH = 200;
+
+interface DiskRecord {
+  id: string;
+  doc: object;
+}
+
+/**
+ * One JSON file per document under `<root>/<collection>/`. Writes go through
+ * a temporary file and a rename, so a crash never leaves half a document.
+ */
+export function createDiskCacheStore(root: string): CacheStore {
+  const fileFor = (collection: string, id: string) => {
+    const encoded = encodeURIComponent(id);
+    const base = encoded.length <= MAX_FILENAME_ID_LENGTH ? encoded : createHash('sha1').update(id).digest('hex');
+    return path.join(root, encodeURIComponent(collection), `${base}.json`);
+  };
+  /** Null when the file is gone, including one deleted between listing and reading it. */
+  const readRecord = async (file: string): Promise<DiskRecord | null> => {
+    try {
+      return JSON.parse(await fsp.readFile(file, 'utf8')) as DiskRecord;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  };
+  const read = async <T>(collection: string, id: string): Promise<T | null> => {
+    const record = await readRecord(fileFor(collection, id));
+    return record ? (record.doc as T) : null;
+  };
+  const write = async (collection: string, id: string, doc: object) => {
+    const file = fileFor(collection, id);
+    await fsp.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify({ id, doc } satisfies DiskRecord), 'utf8');
+    await fsp.rename(tmp, file);
+  };
+  return {
+    name: 'disk',
+    get: read,
+    async getMany<T>(collection: string, ids: string[]) {
+      return Promise.all(ids.map(id => read<T>(collection, id)));
+    },
+    set: write,
+    async setMany(collection, docs) {
+      for (const { id, doc } of docs) await write(collection, id, doc);
+    },
+    async update(collection, id, patch) {
+      const existing = await read<object>(collection, id);
+      if (!existing) throw new Error(`No document ${collection}/${id} to update`);
+      await write(collection, id, { ...existing, ...patch });
+    },
+    async increment(collection, id, counts, set) {
+      await write(collection, id, addCounts(await read<object>(collection, id), counts, set));
+    },
+    /** Reads every file in the collection; fine for the local volumes this backend is for. */
+    async find<T>(collection: string, where: CacheFilter, limit: number, startAfter?: string) {
+      const dir = path.join(root, encodeURIComponent(collection));
+      const files = (await fsp.readdir(dir).catch(() => [] as string[])).filter(f => f.endsWith('.json'));
+      const records = await Promise.all(files.map(f => readRecord(path.join(dir, f))));
+      return records
+        .filter((r): r is DiskRecord => r !== null)
+        .filter(r => (startAfter === undefined || r.id > startAfter) && matches(r.doc, where))
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(0, limit)
+        .map(r => ({ id: r.id, doc: r.doc as T }));
+    },
+    async delete(collection, ids) {
+      await Promise.all(ids.map(id => fsp.rm(fileFor(collection, id), { force: true })));
+    },
+    /**
+     * Creating a document is exclusive (the link fails when the file exists);
+     * replacing one is read-then-write, which is enough for one dev machine.
+     */
+    async claim<T>(collection: string, id: string, next: (current: T | null) => object | null) {
+      const current = await read<T>(collection, id);
+      const doc = next(current);
+      if (!doc) return false;
+      if (current) {
+        await write(collection, id, doc);
+        return true;
+      }
+      const file = fileFor(collection, id);
+      await fsp.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fsp.writeFile(tmp, JSON.stringify({ id, doc } satisfies DiskRecord), 'utf8');
+      try {
+        await fsp.link(tmp, file);
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false;
+        throw err;
+      } finally {
+        await fsp.rm(tmp, { force: true });
+      }
+    },
+  };
+}
+
+/* ==============================
+ * Selection
+ * ============================== */
+
+const DEFAULT_CACHE_DIR = path.join(process.cwd(), '.cache', 'citybreaker');
+
+let selectedStore: CacheStore | null = null;
+
+/**
+ * Chosen with CACHE_BACKEND: "firestore" (default), "memory", or "disk"
+ * (files under CACHE_DIR). Only the Firestore backend needs Google credentials.
+ */
+export function getCacheStore(): CacheStore {
+  if (selectedStore) return selectedStore;
+  const backend = process.env.CACHE_BACKEND || 'firestore';
+  switch (backend) {
+    case 'firestore':
+      selectedStore = firestoreCacheStore;
+      break;
+    case 'memory':
+      selectedStore = createMemoryCacheStore();
+      break;
+    case 'disk':
+      selectedStore = createDiskCacheStore(process.env.CACHE_DIR || DEFAULT_CACHE_DIR);
+      break;
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${backend}".`);
+  }
+  console.log(`CACHE: Using ${selectedStore.name} backend`);
+  return selectedStore;
+}
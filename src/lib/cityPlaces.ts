@@ -0,0 +1,28 @@
+// src/lib/cityPlaces.ts
+// Browser-only: relies on the Maps JavaScript API loaded by MapsProvider.
+
+export interface CityCentre {
+  lat: number;
+  lng: number;
+}
+
+const ATTRACTION_RADIUS_M = 20000;
+const MAX_ATTRACTIONS = 15;
+
+/** Top tourist attractions around a city centre, as shown on the map. */
+export async function searchTouristAttractions(centre: CityCentre): Promise<google.maps.places.Place[]> {
+  const { places } = await google.maps.places.Place.searchNearby({
+    includedTypes: ["tourist_attraction"],
+    locationRestriction: { center: { lat: centre.lat, lng: centre.lng }, radius: ATTRACTION_RADIUS_M },
+    maxResultCount: MAX_ATTRACTIONS,
+    fields: ["id", "displayName", "location", "photos"],
+  });
+  return places;
+}
+
+/** Name + first photo, the shape the itinerary endpoints take as `places`. */
+export function toPlacePhotos(places: google.maps.places.Place[]): { name: string; photoUrl?: string }[] {
+  return places
+    .map(p => ({ name: p.displayName || "", photoUrl: p.photos?.[0]?.getURI() }))
+    .filter(p => p.name);
+}
@@ -1,19 +1,16 @@
 // src/lib/firestoreCache.ts
+import { getCacheStore, timestampMs, type StoredTimestamp } from '@/lib/cacheStore';
 import {
-  Firestore,
-  Timestamp,
-  FieldValue,
-  getFirestore as getAdminFirestore,
-} from 'firebase-admin/firestore';
-import {
-  getApps,
-  initializeApp,
-  App,
-  applicationDefault,
-  AppOptions,
-} from 'firebase-admin/app';
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+  ITINERARY_CACHE_VERSION,
+  PLACE_CACHE_VERSION,
+  upgradeItineraryDoc,
+  upgradePlaceDoc,
+  type UpgradeResult,
+} from '@/lib/cacheSchema';
 import { createHash } from 'crypto';
+import type { TravellerProfile } from '@/lib/travellerProfile';
+import type { DayForecast, ForecastSummary } from '@/lib/weather';
+import type { CostEstimate } from '@/lib/budget';
 
 /* ==============================
  * Domain Types
@@ -24,6 +21,23 @@ export interface LatLng {
   lng: number;
 }
 
+/** Places API (New) `regularOpeningHours` point; `day` is 0 = Sunday. */
+export interface OpeningPoint {
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface OpeningPeriod {
+  open: OpeningPoint;
+  close?: OpeningPoint; // absent for places open 24/7
+}
+
+export interface OpeningHours {
+  periods: OpeningPeriod[];
+  weekdayDescriptions?: string[];
+}
+
 export interface EnrichedPlace {
   name: string;
   placeId?: string;
@@ -31,11 +45,17 @@ export interface EnrichedPlace {
   website?: string;
   googleMapsUrl?: string;
   location?: LatLng;
+  /** `null` = looked up, no hours published; `undefined` = never fetched. */
+  openingHours?: OpeningHours | null;
 }
 
 export interface GetItineraryOptions {
   signatureHash?: string;
   variant?: string;
+  /** Half-day layout fragment from `tripShapeKey`; omitted for all-full-day trips. */
+  shape?: string;
+  /** Count the read in the admin hit/miss stats; only set where a plan is served to a user. */
+  countLookup?: boolean;
 }
 
 export interface ItineraryActivityCache {
@@ -46,27 +66,102 @@ export interface ItineraryActivityCache {
   priceRange?: string;
   audience?: string;
   placeName?: string;
+  startTime?: string;
+  durationMinutes?: number;
+  endTime?: string;
+  rescheduled?: boolean;
+  closedAtTime?: boolean;
+  pastDayEnd?: boolean;
+  setting?: 'indoor' | 'outdoor' | 'mixed';
+  cost?: CostEstimate;
 }
 
 export interface ItineraryDayCache {
   title?: string;
   dayPhotoUrl?: string;
   activities?: ItineraryActivityCache[];
+  kind?: 'full' | 'arrival' | 'departure' | 'arrival-departure';
+  halfDay?: boolean;
+  earliestStart?: string;
+  latestEnd?: string;
+  walkingKm?: number;
+  walkingMinutes?: number;
+  date?: string;
+  weekday?: number;
+  holiday?: string;
+  weather?: DayForecast;
+  indoorAlternatives?: string[];
 }
 
+/** A single user edit that produced a derived itinerary entry. */
+export type ItineraryEdit =
+  | { type: 'regenerate-day'; dayIndex: number }
+  | { type: 'swap-activity'; dayIndex: number; activityIndex: number; placeName: string };
+
+/** Steps of a PDF render, in the order a job goes through them. */
+export const PDF_JOB_STAGES = ['enriching', 'writing', 'images', 'rendering', 'uploading'] as const;
+export type PdfJobStage = (typeof PDF_JOB_STAGES)[number];
+
 export interface PdfJob {
   status: 'PENDING' | 'PROCESSING' | 'COMPLETE' | 'FAILED';
+  /** While PROCESSING: the current step, and overall progress as a whole percentage. */
+  stage?: PdfJobStage;
+  progress?: number;
   pdfUrl?: string;
   error?: string;
   createdAt: string;
   updatedAt: string;
+  /** Runs started so far, the one in progress included. */
+  attempts?: number;
+  maxAttempts?: number;
+  /** A pending job is not picked up before this; set when a retry backs off. */
+  runAfter?: string;
+  /** The worker running the job, and when its lease lapses unless renewed. */
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
   requestPayload: {
     places: { name: string }[];
     tripLength: number;
     cityName: string;
+    startDate?: string; // YYYY-MM-DD of day 1
+    displayCurrency?: string; // ISO 4217; costs stay in local currency when unset
+    template?: string;    // a PdfTemplateId; the magazine layout when unset
+    paper?: string;       // 'A4' | 'Letter'; the template's default when unset
+    orientation?: string; // 'portrait' | 'landscape'; likewise
+    /** Single-city trips: the stored plan to render (the one the panel shows). */
+    cacheKey?: string;
+    /**
+     * The plan as shown, trip-wide (multi-city travel days included). Used for
+     * sections without a cache key; with neither, the PDF plans the trip itself.
+     */
+    itinerary?: ItineraryDayCache[];
+    /** Multi-city trips; when set, the fields above describe the first city. */
+    legs?: {
+      cityName: string;
+      places: { name: string }[];
+      days: number;
+      lat: number;
+      lng: number;
+      country?: string;
+      cacheKey?: string;
+    }[];
   };
 }
 
+/** Intro copy for the PDF cover and city pages. */
+export interface CityGuide {
+  tagline: string;
+  coverPhotoSuggestion: string;
+}
+
+/** A local recommendation listed at the end of the PDF. */
+export interface DreamerRec {
+  name: string;
+  area?: string;
+  note?: string;
+  url: string;
+}
+
 export type JsonObject = Record<string, unknown>;
 
 export interface CacheMeta {
@@ -74,13 +169,25 @@ export interface CacheMeta {
   model?: string;
   prompt?: string;
   rawGeminiText?: string;
+  generationAttempts?: number;
   placesSignature?: string;
   signatureHash?: string;
   variant?: string;
+  shape?: string;
+  profile?: TravellerProfile;
   summaryLevel?: string;
   responseType?: string;
-  source?: 'generated' | 'cache';
+  source?: 'generated' | 'cache' | 'edited' | 'adapted';
   ttlMs?: number;
+  /** Adapted entries only: key of the near-duplicate plan they were cut down from. */
+  adaptedFrom?: string;
+  /** Adapted entries only: Jaccard overlap of the two place sets. */
+  similarity?: number;
+  /** Derived entries only: key of the generated document they started from. */
+  derivedFrom?: string;
+  /** Derived entries only: key of the entry this edit was applied to. */
+  parentKey?: string;
+  edit?: ItineraryEdit;
 }
 
 export interface FirestoreItineraryCacheV2 {
@@ -94,15 +201,21 @@ export interface FirestoreItineraryCacheV2 {
     pdfSignedUrl?: string;
     coverPhotoUrl?: string;
   };
+  /** Forecast the plan was made with; its wet days are part of the key. */
+  weather?: ForecastSummary;
   meta?: CacheMeta;
   createdAt?: string;
-  updatedAt: FirebaseFirestore.Timestamp;
+  updatedAt: StoredTimestamp;
 }
 export interface PlaceEnrichmentDoc {
   nameKey: string;
   place: EnrichedPlace;
-  createdAt?: FirebaseFirestore.Timestamp;
-  updatedAt: FirebaseFirestore.Timestamp;
+  /** The lookup failed or found nothing; kept only for PLACE_MISS_TTL_MS. */
+  miss?: boolean;
+  /** `PLACE_CACHE_VERSION` when written; absent on docs from before versioning. */
+  schemaVersion?: number;
+  createdAt?: StoredTimestamp;
+  updatedAt: StoredTimestamp;
 }
 
 /* ==============================
@@ -110,86 +223,183 @@ export interface PlaceEnrichmentDoc {
  * ============================== */
 
 const ITINERARY_COLLECTION = 'itineraryCache_v2';
-const PLACE_COLLECTION = 'placeEnrichment_v1';
+const PLACE_COLLECTION = 'placeEnrichment_v2';
+const LEGACY_PLACE_COLLECTION = 'placeEnrichment_v1';
 const JOBS_COLLECTION = 'pdfJobs';
+const ITINERARY_STATS_COLLECTION = 'itineraryCacheStats';
+const GENERATION_LEASE_COLLECTION = 'itineraryGenerationLeases';
 
 export const DEFAULT_ITINERARY_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+/** How long past its TTL an entry is still served while a refresh runs. */
+export const ITINERARY_STALE_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Kept alive by the holder while it generates; a crashed holder's lease lapses after it. */
+export const GENERATION_LEASE_MS = 3 * 60 * 1000;
+export const DEFAULT_REUSE_THRESHOLD = 0.8;
+/** Candidates read per page of a near-duplicate lookup; entries are whole plans, so keep it modest. */
+const REUSE_PAGE_SIZE = 25;
+/** Most candidates one lookup compares; past this the lookup gives up rather than read on. */
+const MAX_REUSE_SCANNED = 200;
 export const PLACE_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+export const PLACE_MISS_TTL_MS = 6 * 60 * 60 * 1000;
 
-const PROJECT_ID_SECRET = 'projects/934477100130/secrets/citybreaker-project-id/versions/latest';
+export const PDF_JOB_MAX_ATTEMPTS = 3;
+/** Renewed while a worker renders; a job whose lease lapses is taken back. */
+export const PDF_JOB_LEASE_MS = 2 * 60 * 1000;
+const PDF_JOB_RETRY_BASE_MS = 30 * 1000;
+const PDF_JOB_SCAN_PAGE = 50;
 
 /* ==============================
- * Singletons & Initialization
+ * PDF Job Functions
  * ============================== */
 
-let firestore: Firestore | null = null;
-let initPromise: Promise<void> | null = null;
-let secretsClient: SecretManagerServiceClient | null = null;
-
-async function fetchProjectIdFromSecret(): Promise<string> {
-  if (!secretsClient) secretsClient = new SecretManagerServiceClient();
-  const [version] = await secretsClient.accessSecretVersion({ name: PROJECT_ID_SECRET });
-  const raw = version.payload?.data?.toString();
-  if (!raw) throw new Error(`Secret payload is empty for ${PROJECT_ID_SECRET}`);
-  try {
-    const parsed = JSON.parse(raw) as Record<string, unknown>;
-    const id = parsed['projectId'] || parsed['project_id'];
-    if (typeof id === 'string' && id.trim()) return id.trim();
-  } catch { /* Not JSON, fall through */ }
-  const trimmed = raw.trim();
-  if (!trimmed) throw new Error(`Secret ${PROJECT_ID_SECRET} resolved to empty string`);
-  return trimmed;
-}
-
-async function ensureFirestore(): Promise<void> {
-  if (firestore) return;
-  if (initPromise) return initPromise;
-  initPromise = (async () => {
-    const existing = getApps();
-    if (existing.length > 0) {
-      firestore = getAdminFirestore(existing[0]);
-      return;
-    }
-    const projectId = await fetchProjectIdFromSecret();
-    const opts: AppOptions = { credential: applicationDefault(), projectId };
-    const app: App = initializeApp(opts);
-    const db = getAdminFirestore(app);
-    db.settings({ ignoreUndefinedProperties: true });
-    console.log(`FIRESTORE: Initialized via Secret Manager. project=${projectId}`);
-    firestore = db;
-  })();
-  return initPromise;
-}
-
-/* ==============================
- * PDF Job Functions (CORRECTED)
- * ============================== */
-
-export async function createPdfJob(jobId: string, payload: PdfJob['requestPayload']): Promise<void> {
-  await ensureFirestore(); // <-- STEP 1: Ensure DB is connected
-  const jobRef = (firestore as Firestore).collection(JOBS_COLLECTION).doc(jobId); // <-- STEP 2: Use 'firestore'
+export async function createPdfJob(
+  jobId: string,
+  payload: PdfJob['requestPayload'],
+  maxAttempts = PDF_JOB_MAX_ATTEMPTS
+): Promise<void> {
   const now = new Date().toISOString();
-  await jobRef.set({
+  await getCacheStore().set(JOBS_COLLECTION, jobId, {
     status: 'PENDING',
     createdAt: now,
     updatedAt: now,
+    runAfter: now,
+    attempts: 0,
+    maxAttempts,
     requestPayload: payload,
   });
 }
 
 export async function updatePdfJob(jobId: string, data: Partial<Omit<PdfJob, 'createdAt' | 'requestPayload'>>): Promise<void> {
-  await ensureFirestore(); // <-- STEP 1: Ensure DB is connected
-  const jobRef = (firestore as Firestore).collection(JOBS_COLLECTION).doc(jobId); // <-- STEP 2: Use 'firestore'
-  await jobRef.update({ ...data, updatedAt: new Date().toISOString() });
+  await getCacheStore().update(JOBS_COLLECTION, jobId, { ...data, updatedAt: new Date().toISOString() });
 }
 
 export async function getPdfJob(jobId: string): Promise<PdfJob | null> {
-  await ensureFirestore(); // <-- STEP 1: Ensure DB is connected
-  const doc = await (firestore as Firestore).collection(JOBS_COLLECTION).doc(jobId).get(); // <-- STEP 2: Use 'firestore'
-  if (!doc.exists) {
-    return null;
+  return getCacheStore().get<PdfJob>(JOBS_COLLECTION, jobId);
+}
+
+/* ==============================
+ * PDF Job Queue
+ * ============================== */
+
+const isoAt = (ms: number) => new Date(ms).toISOString();
+
+/** Jobs from before leasing carry no lease; they count from their last update. */
+function pdfLeaseExpiryMs(job: PdfJob, leaseMs: number): number {
+  return job.leaseExpiresAt ? timestampMs(job.leaseExpiresAt) : timestampMs(job.updatedAt) + leaseMs;
+}
+
+/** Back to the queue with exponential backoff while attempts remain; FAILED otherwise. */
+function afterFailedAttempt(job: PdfJob, error: string, retryable: boolean, now: number): Partial<PdfJob> {
+  const attempts = job.attempts ?? 1;
+  const released = { error, leaseOwner: undefined, leaseExpiresAt: undefined, stage: undefined, progress: undefined };
+  if (!retryable || attempts >= (job.maxAttempts ?? PDF_JOB_MAX_ATTEMPTS)) return { ...released, status: 'FAILED' };
+  return { ...released, status: 'PENDING', runAfter: isoAt(now + PDF_JOB_RETRY_BASE_MS * 2 ** (attempts - 1)) };
+}
+
+/**
+ * Moves the first due pending job to PROCESSING under `owner`'s lease and
+ * returns it, or null when nothing is due. Of several workers racing for a
+ * job, exactly one gets it.
+ */
+export async function claimNextPdfJob(
+  owner: string,
+  leaseMs = PDF_JOB_LEASE_MS
+): Promise<{ jobId: string; job: PdfJob } | null> {
+  const store = getCacheStore();
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await store.find<PdfJob>(JOBS_COLLECTION, { status: 'PENDING' }, PDF_JOB_SCAN_PAGE, cursor);
+    for (const { id } of page) {
+      let claimed = null as PdfJob | null;
+      const now = Date.now();
+      const won = await store.claim<PdfJob>(JOBS_COLLECTION, id, current => {
+        if (current?.status !== 'PENDING' || timestampMs(current.runAfter) > now) return null;
+        claimed = cleanUndefined<PdfJob>({
+          ...current,
+          status: 'PROCESSING',
+          stage: undefined,
+          progress: 0,
+          attempts: (current.attempts ?? 0) + 1,
+          leaseOwner: owner,
+          leaseExpiresAt: isoAt(now + leaseMs),
+          updatedAt: isoAt(now),
+        });
+        return claimed;
+      });
+      if (won && claimed) return { jobId: id, job: claimed };
+    }
+    if (page.length < PDF_JOB_SCAN_PAGE) return null;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+/** Applies `change` only while `owner` still holds the job; false when the lease was lost. */
+async function changeLeasedPdfJob(
+  jobId: string,
+  owner: string,
+  change: (job: PdfJob, now: number) => Partial<PdfJob>
+): Promise<boolean> {
+  return getCacheStore().claim<PdfJob>(JOBS_COLLECTION, jobId, current => {
+    if (current?.status !== 'PROCESSING' || current.leaseOwner !== owner) return null;
+    const now = Date.now();
+    return cleanUndefined<PdfJob>({ ...current, ...change(current, now), updatedAt: isoAt(now) });
+  });
+}
+
+export async function renewPdfJobLease(jobId: string, owner: string, leaseMs = PDF_JOB_LEASE_MS): Promise<boolean> {
+  return changeLeasedPdfJob(jobId, owner, (_, now) => ({ leaseExpiresAt: isoAt(now + leaseMs) }));
+}
+
+export async function reportPdfJobProgress(
+  jobId: string,
+  owner: string,
+  stage: PdfJobStage,
+  progress: number
+): Promise<boolean> {
+  return changeLeasedPdfJob(jobId, owner, () => ({ stage, progress: Math.round(Math.min(Math.max(progress, 0), 100)) }));
+}
+
+export async function completePdfJob(jobId: string, owner: string, pdfUrl: string): Promise<boolean> {
+  return changeLeasedPdfJob(jobId, owner, () => ({
+    status: 'COMPLETE',
+    stage: undefined,
+    progress: 100,
+    pdfUrl,
+    error: undefined,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined,
+  }));
+}
+
+/** Requeues the job with backoff, or fails it for good when `retryable` is false or attempts ran out. */
+export async function failPdfJobAttempt(jobId: string, owner: string, error: string, retryable = true): Promise<boolean> {
+  return changeLeasedPdfJob(jobId, owner, (job, now) => afterFailedAttempt(job, error, retryable, now));
+}
+
+/**
+ * Takes back PROCESSING jobs whose lease lapsed (their worker died or was
+ * frozen): requeued while attempts remain, failed otherwise. Returns how
+ * many were recovered.
+ */
+export async function recoverStuckPdfJobs(leaseMs = PDF_JOB_LEASE_MS): Promise<number> {
+  const store = getCacheStore();
+  let recovered = 0;
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await store.find<PdfJob>(JOBS_COLLECTION, { status: 'PROCESSING' }, PDF_JOB_SCAN_PAGE, cursor);
+    for (const { id } of page) {
+      const now = Date.now();
+      const taken = await store.claim<PdfJob>(JOBS_COLLECTION, id, current => {
+        if (current?.status !== 'PROCESSING' || pdfLeaseExpiryMs(current, leaseMs) > now) return null;
+        const worker = current.leaseOwner ?? 'an earlier deploy';
+        const patch = afterFailedAttempt(current, `Worker lease expired (held by ${worker}).`, true, now);
+        return cleanUndefined<PdfJob>({ ...current, ...patch, updatedAt: isoAt(now) });
+      });
+      if (taken) recovered++;
+    }
+    if (page.length < PDF_JOB_SCAN_PAGE) return recovered;
+    cursor = page[page.length - 1].id;
   }
-  return doc.data() as PdfJob;
 }
 
 /* ==============================
@@ -212,16 +422,23 @@ export function buildItineraryKey(
   city: string,
   days: number,
   signatureHash?: string,
-  variant?: string
+  variant?: string,
+  shape?: string
 ): string {
   const cityKey = normalizeCityKey(city);
   return (
     `city-${cityKey}-days-${days}` +
+    (shape ? `-shape-${shape}` : '') +
     (signatureHash ? `-sig-${signatureHash}` : '') +
     (variant ? `-v-${variant}` : '') 
   );
 }
 
+/** Derived entries live next to their original so they share its TTL and lookup. */
+export function derivedItineraryKey(originalKey: string, editId: string): string {
+  return `${originalKey}-edit-${editId}`;
+}
+
 /* ==============================
  * Utils
  * ============================== */
@@ -242,12 +459,26 @@ function cleanUndefined<T>(obj: T): T {
   return obj;
 }
 
-export function isItineraryFresh(doc: Pick<FirestoreItineraryCacheV2, 'createdAt' | 'updatedAt'>, ttlMs: number, now = Date.now()): boolean {
-  const tsMs = doc.createdAt ? new Date(doc.createdAt).getTime() : doc.updatedAt?.toDate?.().getTime?.() || 0;
-  if (!tsMs || Number.isNaN(tsMs)) return false;
+/** Within the entry's own TTL (`meta.ttlMs`), or the default one. */
+export function isItineraryFresh(
+  doc: Pick<FirestoreItineraryCacheV2, 'createdAt' | 'updatedAt' | 'meta'>,
+  ttlMs = doc.meta?.ttlMs ?? DEFAULT_ITINERARY_TTL_MS,
+  now = Date.now()
+): boolean {
+  const tsMs = timestampMs(doc.createdAt ?? doc.updatedAt);
+  if (!tsMs) return false;
   return now - tsMs < ttlMs;
 }
 
+/** Fresh, or stale by less than `ITINERARY_STALE_GRACE_MS`: good enough to show while refreshing. */
+export function isItineraryServable(
+  doc: Pick<FirestoreItineraryCacheV2, 'createdAt' | 'updatedAt' | 'meta'>,
+  now = Date.now()
+): boolean {
+  const ttlMs = doc.meta?.ttlMs ?? DEFAULT_ITINERARY_TTL_MS;
+  return isItineraryFresh(doc, ttlMs + ITINERARY_STALE_GRACE_MS, now);
+}
+
 /* ==============================
  * Itinerary Cache
  * ============================== */
@@ -257,22 +488,26 @@ export async function getCachedItinerary(
   days: number,
   opts: GetItineraryOptions = {}
 ): Promise<FirestoreItineraryCacheV2 | null> {
-  await ensureFirestore();
-    
-  const key = buildItineraryKey(city, days, opts.signatureHash, opts.variant);
+  const key = buildItineraryKey(city, days, opts.signatureHash, opts.variant, opts.shape);
+  return getCachedItineraryByKey(key, opts);
+}
+
+export async function getCachedItineraryByKey(
+  key: string,
+  { countLookup = false }: Pick<GetItineraryOptions, 'countLookup'> = {}
+): Promise<FirestoreItineraryCacheV2 | null> {
   try {
-    const snap = await (firestore as Firestore)
-      .collection(ITINERARY_COLLECTION)
-      .doc(key)
-      .get();
-    if (!snap.exists) {
-      console.log(`FIRESTORE: Cache miss for ${key}`);
-      return null;
+    const stored = await getCacheStore().get<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, key);
+    const upgraded = stored ? upgradeItineraryDoc(stored) : null;
+    if (upgraded?.status === 'unreadable') {
+      console.log(`CACHE: Ignoring ${key}: schema v${upgraded.version} cannot be read as v${ITINERARY_CACHE_VERSION}`);
     }
-    console.log(`FIRESTORE: Cache hit for ${key}`);
-    return snap.data() as FirestoreItineraryCacheV2;
+    const doc = upgraded && upgraded.status !== 'unreadable' ? upgraded.doc : null;
+    console.log(`CACHE: Cache ${doc ? 'hit' : 'miss'} for ${key}`);
+    if (countLookup) recordCacheLookup(key, !!doc);
+    return doc;
   } catch (err) {
-    console.error(`FIRESTORE: Failed to get cache for ${key}`, err);
+    console.error(`CACHE: Failed to get cache for ${key}`, err);
     return null;
   }
 }
@@ -280,6 +515,7 @@ export async function getCachedItinerary(
 export interface StoreItineraryOptions {
   signatureHash?: string;
   variant?: string;
+  shape?: string;
 }
 
 export async function storeCachedItinerary(
@@ -288,9 +524,8 @@ export async function storeCachedItinerary(
   data: Omit<FirestoreItineraryCacheV2, 'updatedAt'>,
   opts: StoreItineraryOptions = {} // Use the corrected interface
 ): Promise<void> {
-  await ensureFirestore();
   // The key builder must also be aware of the variant
-  const key = buildItineraryKey(city, days, opts.signatureHash, opts.variant);
+  const key = buildItineraryKey(city, days, opts.signatureHash, opts.variant, opts.shape);
 
   try {
     const createdAt = data.createdAt ?? new Date().toISOString();
@@ -298,74 +533,665 @@ export async function storeCachedItinerary(
       ...data,
       createdAt,
       meta: {
-        cacheVersion: data.meta?.cacheVersion ?? 2,
         ...data.meta,
+        cacheVersion: ITINERARY_CACHE_VERSION,
         signatureHash: opts.signatureHash ?? data.meta?.signatureHash,
         variant: opts.variant ?? data.meta?.variant, // Ensure variant is stored in meta
+        shape: opts.shape ?? data.meta?.shape ?? '',
       },
     });
 
-    await (firestore as Firestore)
-      .collection(ITINERARY_COLLECTION)
-      .doc(key)
-      .set(
-        {
-          ...payload,
-          updatedAt: Timestamp.now(),
-        },
-        { merge: false }
-      );
-
-    console.log(`FIRESTORE: Stored itinerary for ${key}`);
+    await getCacheStore().set(ITINERARY_COLLECTION, key, { ...payload, updatedAt: new Date() });
+
+    console.log(`CACHE: Stored itinerary for ${key}`);
+  } catch (err) {
+    console.error(`CACHE: Failed to store cache for ${key}`, err);
+  }
+}
+
+/**
+ * Stores an edited copy of an itinerary under `derivedItineraryKey`. Unlike
+ * `storeCachedItinerary` a failed write throws: the caller hands the key back
+ * to the client for further edits, so it must exist.
+ */
+export async function storeDerivedItinerary(
+  key: string,
+  data: Omit<FirestoreItineraryCacheV2, 'updatedAt'>
+): Promise<void> {
+  const payload = cleanUndefined<Omit<FirestoreItineraryCacheV2, 'updatedAt'>>({
+    ...data,
+    createdAt: data.createdAt ?? new Date().toISOString(),
+    meta: { ...data.meta, cacheVersion: ITINERARY_CACHE_VERSION, source: 'edited', shape: data.meta?.shape ?? '' },
+  });
+  await getCacheStore().set(ITINERARY_COLLECTION, key, { ...payload, updatedAt: new Date() });
+  console.log(`CACHE: Stored derived itinerary ${key} (from ${data.meta?.derivedFrom})`);
+}
+
+/** Notes the guide rendered from an entry, so it can be served again without a new job. */
+export async function recordItineraryPdf(key: string, pdfPath: string): Promise<void> {
+  try {
+    const store = getCacheStore();
+    const doc = await store.get<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, key);
+    if (!doc) return;
+    await store.update(ITINERARY_COLLECTION, key, { assets: { ...doc.assets, pdfPath } });
+    console.log(`CACHE: Recorded PDF for ${key}`);
+  } catch (err) {
+    console.error(`CACHE: Failed to record PDF for ${key}`, err);
+  }
+}
+
+/* ==============================
+ * Near-Duplicate Reuse
+ * ============================== */
+
+export interface SimilarItinerary {
+  key: string;
+  doc: FirestoreItineraryCacheV2;
+  similarity: number;
+}
+
+/**
+ * Minimum place-set overlap for reusing another plan, from
+ * ITINERARY_REUSE_THRESHOLD (default 0.8). 1 or more turns reuse off.
+ */
+export function itineraryReuseThreshold(): number | null {
+  const raw = process.env.ITINERARY_REUSE_THRESHOLD;
+  const threshold = raw ? Number(raw) : DEFAULT_REUSE_THRESHOLD;
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    console.warn(`CACHE: Ignoring ITINERARY_REUSE_THRESHOLD="${raw}"; using ${DEFAULT_REUSE_THRESHOLD}`);
+    return DEFAULT_REUSE_THRESHOLD;
+  }
+  return threshold < 1 ? threshold : null;
+}
+
+/** Jaccard overlap of two `computePlacesSignature` strings: shared names over all names. */
+export function placeSetSimilarity(signatureA: string, signatureB: string): number {
+  const a = new Set(signatureA.split('|').filter(Boolean));
+  const b = new Set(signatureB.split('|').filter(Boolean));
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  for (const name of a) if (b.has(name)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Whether every name in `subset` is in `superset` (both `computePlacesSignature` strings). */
+function coversPlaces(superset: string, subset: string): boolean {
+  const names = new Set(superset.split('|'));
+  return subset.split('|').filter(Boolean).every(name => names.has(name));
+}
+
+/**
+ * The fresh generated plan for the same city, day count, variant and shape
+ * whose places overlap `placesSignature` most, if that overlap reaches
+ * `minSimilarity`. Only plans that include every requested place qualify:
+ * adapting can drop visits but not write new ones. Edited and adapted
+ * entries are filtered out in the query, so they never crowd out real
+ * candidates; the candidates are then ranked by overlap.
+ */
+export async function findSimilarItinerary(
+  city: string,
+  days: number,
+  placesSignature: string,
+  { variant, shape, minSimilarity }: { variant: string; shape?: string; minSimilarity: number }
+): Promise<SimilarItinerary | null> {
+  try {
+    const store = getCacheStore();
+    const where = {
+      city: normalizeCityKey(city),
+      days,
+      'meta.variant': variant,
+      'meta.source': 'generated',
+      'meta.shape': shape ?? '',
+    };
+    let best: SimilarItinerary | null = null;
+    let scanned = 0;
+    let cursor: string | undefined;
+    while (scanned < MAX_REUSE_SCANNED) {
+      const page = await store.find<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, where, REUSE_PAGE_SIZE, cursor);
+      scanned += page.length;
+      for (const { id, doc: stored } of page) {
+        const upgraded = upgradeItineraryDoc(stored);
+        if (upgraded.status === 'unreadable' || !isItineraryFresh(upgraded.doc)) continue;
+        const { doc } = upgraded;
+        const signature = doc.meta?.placesSignature ?? '';
+        if (!coversPlaces(signature, placesSignature)) continue;
+        const similarity = placeSetSimilarity(placesSignature, signature);
+        if (similarity >= minSimilarity && similarity > (best?.similarity ?? 0)) best = { key: id, doc, similarity };
+      }
+      if (page.length < REUSE_PAGE_SIZE || best?.similarity === 1) break;
+      cursor = page[page.length - 1].id;
+    }
+    return best;
+  } catch (err) {
+    console.error(`CACHE: Near-duplicate lookup failed for ${city}, ${days} days`, err);
+    return null;
+  }
+}
+
+/* ==============================
+ * Generation Leases
+ * ============================== */
+
+/** Marks a cache key as being generated, so other instances wait instead of generating it too. */
+export interface GenerationLease {
+  owner: string;
+  expiresAt: string;
+}
+
+/**
+ * Takes the lease on `key` unless another owner holds one that has not
+ * expired. If the store cannot be reached the caller carries on as if it got
+ * the lease: a duplicate generation beats a stuck request.
+ */
+export async function claimGenerationLease(key: string, owner: string, ttlMs = GENERATION_LEASE_MS): Promise<boolean> {
+  const now = Date.now();
+  const lease: GenerationLease = { owner, expiresAt: new Date(now + ttlMs).toISOString() };
+  try {
+    return await getCacheStore().claim<GenerationLease>(GENERATION_LEASE_COLLECTION, key, current =>
+      !current || current.owner === owner || timestampMs(current.expiresAt) <= now ? lease : null
+    );
+  } catch (err) {
+    console.error(`CACHE: Failed to claim generation lease for ${key}`, err);
+    return true;
+  }
+}
+
+/**
+ * Pushes the expiry of `owner`'s lease on `key` out by `ttlMs`; false (and
+ * nothing written) when the lease has lapsed to another owner or is gone.
+ */
+export async function renewGenerationLease(key: string, owner: string, ttlMs = GENERATION_LEASE_MS): Promise<boolean> {
+  const lease: GenerationLease = { owner, expiresAt: new Date(Date.now() + ttlMs).toISOString() };
+  try {
+    return await getCacheStore().claim<GenerationLease>(GENERATION_LEASE_COLLECTION, key, current =>
+      current?.owner === owner ? lease : null
+    );
+  } catch (err) {
+    console.error(`CACHE: Failed to renew generation lease for ${key}`, err);
+    return false;
+  }
+}
+
+/** Whether someone holds an unexpired lease on `key`. */
+export async function isGenerationLeased(key: string): Promise<boolean> {
+  try {
+    const lease = await getCacheStore().get<GenerationLease>(GENERATION_LEASE_COLLECTION, key);
+    return !!lease && timestampMs(lease.expiresAt) > Date.now();
+  } catch (err) {
+    console.error(`CACHE: Failed to read generation lease for ${key}`, err);
+    return false;
+  }
+}
+
+/** Gives the lease back early; one taken over by another owner is left alone. */
+export async function releaseGenerationLease(key: string, owner: string): Promise<void> {
+  try {
+    const store = getCacheStore();
+    const lease = await store.get<GenerationLease>(GENERATION_LEASE_COLLECTION, key);
+    if (lease?.owner === owner) await store.delete(GENERATION_LEASE_COLLECTION, [key]);
   } catch (err) {
-    console.error(`FIRESTORE: Failed to store cache for ${key}`, err);
+    console.error(`CACHE: Failed to release generation lease for ${key}`, err);
   }
 }
 
+/* ==============================
+ * Itinerary Cache Administration
+ * ============================== */
+
+/** Lookups per key where a plan was served to a user (a hit may still be stale). */
+export interface CacheKeyStats {
+  hits: number;
+  misses: number;
+  lastHitAt?: string;
+  lastMissAt?: string;
+}
+
+export interface ItineraryCacheFilter {
+  city?: string;
+  days?: number;
+  signatureHash?: string;
+  variant?: string;
+}
+
+/** One row of the admin listing; the full document is fetched by key. */
+export interface ItineraryCacheSummary {
+  key: string;
+  city: string;
+  days: number;
+  createdAt?: string;
+  signatureHash?: string;
+  variant?: string;
+  shape?: string;
+  source?: CacheMeta['source'];
+  derivedFrom?: string;
+  adaptedFrom?: string;
+  model?: string;
+  stats: CacheKeyStats;
+}
+
+const MAX_PURGE_BATCH = 500;
+
+/** Lookups are summed in memory and written at most this often, so a popular key is not a write hot spot. */
+const LOOKUP_FLUSH_MS = 10_000;
+
+const pendingLookups = new Map<string, CacheKeyStats>();
+let lookupFlush: ReturnType<typeof setTimeout> | null = null;
+
+/** Counts a lookup; it reaches the store with the next flush (a crash loses at most one interval). */
+function recordCacheLookup(key: string, hit: boolean): void {
+  const at = new Date().toISOString();
+  const pending = pendingLookups.get(key) ?? { hits: 0, misses: 0 };
+  if (hit) {
+    pending.hits++;
+    pending.lastHitAt = at;
+  } else {
+    pending.misses++;
+    pending.lastMissAt = at;
+  }
+  pendingLookups.set(key, pending);
+  if (!lookupFlush) {
+    lookupFlush = setTimeout(() => void flushCacheLookups(), LOOKUP_FLUSH_MS);
+    lookupFlush.unref?.();
+  }
+}
+
+/** One increment per key for everything counted since the last flush. */
+async function flushCacheLookups(): Promise<void> {
+  lookupFlush = null;
+  const batch = Array.from(pendingLookups);
+  pendingLookups.clear();
+  await Promise.all(batch.map(async ([key, { hits, misses, lastHitAt, lastMissAt }]) => {
+    const counts: Record<string, number> = {};
+    if (hits) counts.hits = hits;
+    if (misses) counts.misses = misses;
+    try {
+      await getCacheStore().increment(ITINERARY_STATS_COLLECTION, key, counts, cleanUndefined({ lastHitAt, lastMissAt }));
+    } catch (err) {
+      console.warn(`CACHE: Failed to record ${hits + misses} lookup(s) for ${key}`, err);
+    }
+  }));
+}
+
+export async function getCacheStats(keys: string[]): Promise<Map<string, CacheKeyStats>> {
+  const docs = await getCacheStore().getMany<Partial<CacheKeyStats>>(ITINERARY_STATS_COLLECTION, keys);
+  return new Map(keys.map((key, i) => [key, { hits: 0, misses: 0, ...docs[i] }]));
+}
+
+/** Reads an entry for inspection without counting it as a lookup. */
+export async function inspectCachedItinerary(key: string): Promise<FirestoreItineraryCacheV2 | null> {
+  return getCacheStore().get<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, key);
+}
+
+export interface ItineraryCachePage {
+  entries: ItineraryCacheSummary[];
+  /** Pass back as `startAfter` for the next page; absent on the last one. */
+  nextCursor?: string;
+}
+
+/** One page of entries in key order, starting after `startAfter`. */
+export async function listCachedItineraries(
+  filter: ItineraryCacheFilter,
+  limit: number,
+  startAfter?: string
+): Promise<ItineraryCachePage> {
+  const where: Record<string, string | number> = {};
+  if (filter.city) where.city = normalizeCityKey(filter.city);
+  if (filter.days !== undefined) where.days = filter.days;
+  if (filter.signatureHash) where['meta.signatureHash'] = filter.signatureHash;
+  if (filter.variant) where['meta.variant'] = filter.variant;
+  const found = await getCacheStore().find<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, where, limit, startAfter);
+  const stats = await getCacheStats(found.map(f => f.id));
+  const entries = found.map(({ id, doc }) => ({
+    key: id,
+    city: doc.city,
+    days: doc.days,
+    createdAt: doc.createdAt,
+    signatureHash: doc.meta?.signatureHash,
+    variant: doc.meta?.variant,
+    shape: doc.meta?.shape,
+    source: doc.meta?.source,
+    derivedFrom: doc.meta?.derivedFrom,
+    adaptedFrom: doc.meta?.adaptedFrom,
+    model: doc.meta?.model,
+    stats: stats.get(id) ?? { hits: 0, misses: 0 },
+  }));
+  return { entries, nextCursor: found.length === limit ? found[found.length - 1].id : undefined };
+}
+
+/**
+ * Deletes an entry and every edit or adaptation derived from it, so the next
+ * request plans afresh. Returns the keys that were removed.
+ */
+export async function purgeCachedItinerary(key: string): Promise<string[]> {
+  const store = getCacheStore();
+  const entry = await store.get<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, key);
+  const derived = await store.find(ITINERARY_COLLECTION, { 'meta.derivedFrom': key }, MAX_PURGE_BATCH);
+  const adapted = await store.find(ITINERARY_COLLECTION, { 'meta.adaptedFrom': key }, MAX_PURGE_BATCH);
+  const keys = [...(entry ? [key] : []), ...derived.map(d => d.id), ...adapted.map(d => d.id)];
+  await store.delete(ITINERARY_COLLECTION, keys);
+  console.log(`CACHE: Purged ${keys.length} itinerary entr${keys.length === 1 ? 'y' : 'ies'} for ${key}`);
+  return keys;
+}
+
+/** Deletes every entry for the city, edits included; returns how many went. */
+export async function purgeCachedCity(city: string): Promise<number> {
+  const store = getCacheStore();
+  const where = { city: normalizeCityKey(city) };
+  let purged = 0;
+  for (;;) {
+    const batch = await store.find(ITINERARY_COLLECTION, where, MAX_PURGE_BATCH);
+    if (!batch.length) break;
+    await store.delete(ITINERARY_COLLECTION, batch.map(b => b.id));
+    purged += batch.length;
+    if (batch.length < MAX_PURGE_BATCH) break;
+  }
+  console.log(`CACHE: Purged ${purged} itinerary entries for city ${where.city}`);
+  return purged;
+}
+
 /* ==============================
  * Per-Place Enrichment Cache
  * ============================== */
 
+const PLACE_SLUG_MAX_LENGTH = 80;
+
+/**
+ * Lowercased letters and digits of any script, dash-separated: "東京タワー"
+ * stays "東京タワー" and "Café de Flore" becomes "café-de-flore". Long or
+ * empty slugs get a hash of the full text so they stay distinct.
+ */
+function slugPart(text: string): string {
+  const normalized = (text || '').normalize('NFKC').trim().toLowerCase();
+  const slug = normalized.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  const chars = Array.from(slug);
+  if (slug && chars.length <= PLACE_SLUG_MAX_LENGTH) return slug;
+  return `${chars.slice(0, PLACE_SLUG_MAX_LENGTH).join('')}-${hashSignature(normalized, 10)}`.replace(/^-/, '');
+}
+
+/** Name-scoped key: the same name in two cities is two places. */
+export function placeCacheKey(city: string, name: string): string {
+  return `${city.trim() ? slugPart(city) : 'any'}__${slugPart(name)}`;
+}
+
+function placeIdKey(placeId: string): string {
+  return `pid__${placeId}`;
+}
+
+/** Name-keyed doc for a place whose Places id is known; the data lives under the id. */
+interface PlaceAliasDoc {
+  nameKey: string;
+  city: string;
+  name: string;
+  placeId: string;
+  updatedAt: StoredTimestamp;
+}
+
+type StoredPlaceDoc = (PlaceEnrichmentDoc & { city?: string; name?: string }) | PlaceAliasDoc;
+
+/* --- Legacy (v1) keys: name only, ASCII only --- */
+
 function normalizePlaceNameKey(name: string): string {
   return (name || '').trim().toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9\-]/g, '').slice(0, 200);
 }
 
+/** @deprecated v1 key; non-Latin names collapse to "place-". Use `placeCacheKey`. */
 export function placeKeyFromName(name: string): string {
   return `place-${normalizePlaceNameKey(name)}`;
 }
 
+/** Reads v1 docs by legacy key. Lookups no longer fall back to these; see `migrateLegacyPlaces`. */
 export async function getManyPlaceEnrichments(names: string[]): Promise<Map<string, PlaceEnrichmentDoc>> {
-  await ensureFirestore();
   const map = new Map<string, PlaceEnrichmentDoc>();
-  const keys = Array.from(new Set((names || []).map(placeKeyFromName)));
+  const keys = Array.from(new Set((names || []).filter(n => normalizePlaceNameKey(n)).map(placeKeyFromName)));
   if (keys.length === 0) return map;
-  const refs = keys.map((k) => (firestore as Firestore).collection(PLACE_COLLECTION).doc(k));
-  const snaps = await (firestore as Firestore).getAll(...refs);
-  snaps.forEach((snap, idx) => {
-    if (snap.exists) {
-      map.set(keys[idx], snap.data() as PlaceEnrichmentDoc);
-    }
+  const docs = await getCacheStore().getMany<PlaceEnrichmentDoc>(LEGACY_PLACE_COLLECTION, keys);
+  docs.forEach((doc, idx) => {
+    if (doc) map.set(keys[idx], doc);
   });
   return map;
 }
 
-export async function upsertPlaceEnrichment(name: string, place: EnrichedPlace): Promise<void> {
-  await ensureFirestore();
-  const key = placeKeyFromName(name);
+/* --- City-scoped (v2) entries --- */
+
+/**
+ * Enrichments for `names` in `city`, keyed by the name as given. Aliases are
+ * resolved to their place-id doc. Names with no v2 entry are misses: v1 docs
+ * are keyed by name alone, so one may describe a namesake in another city.
+ */
+export async function getPlaceEnrichments(city: string, names: string[]): Promise<Map<string, PlaceEnrichmentDoc>> {
+  const store = getCacheStore();
+  const result = new Map<string, PlaceEnrichmentDoc>();
+  const unique = Array.from(new Set((names || []).filter(Boolean)));
+  if (!unique.length) return result;
+
+  // Docs in a schema this deploy cannot read are left out, so the name is looked up again.
+  const setReadable = (name: string, doc: PlaceEnrichmentDoc) => {
+    const upgraded = upgradePlaceDoc(doc);
+    if (upgraded.status !== 'unreadable') result.set(name, upgraded.doc);
+  };
+
+  const docs = await store.getMany<StoredPlaceDoc>(PLACE_COLLECTION, unique.map(n => placeCacheKey(city, n)));
+  const aliases = new Map<string, string>(); // name -> placeId
+  docs.forEach((doc, idx) => {
+    const name = unique[idx];
+    if (!doc) return;
+    if ('place' in doc) setReadable(name, doc);
+    else aliases.set(name, doc.placeId);
+  });
+
+  const placeIds = Array.from(new Set(aliases.values()));
+  if (placeIds.length) {
+    const idDocs = await store.getMany<PlaceEnrichmentDoc>(PLACE_COLLECTION, placeIds.map(placeIdKey));
+    const byId = new Map<string, PlaceEnrichmentDoc>();
+    idDocs.forEach((doc, idx) => { if (doc) byId.set(placeIds[idx], doc); });
+    aliases.forEach((placeId, name) => {
+      const doc = byId.get(placeId);
+      if (doc) setReadable(name, doc);
+    });
+  }
+
+  return result;
+}
+
+export interface PlaceEnrichmentWrite {
+  name: string;
+  place: EnrichedPlace;
+  miss?: boolean;
+  /** Defaults to now; migrations keep the original time. */
+  updatedAt?: StoredTimestamp;
+}
+
+/**
+ * Writes enrichments in one batch. Found places are stored once under their
+ * Places id, with a city-scoped alias per name; misses and id-less results
+ * are stored under the name. Each doc is replaced whole, so a miss never
+ * leaves fields from an older lookup behind.
+ */
+export async function upsertPlaceEnrichments(city: string, entries: PlaceEnrichmentWrite[]): Promise<void> {
+  if (!entries.length) return;
+  const docs: { id: string; doc: object }[] = [];
+  const createdAt = new Date();
+  for (const { name, place, miss, updatedAt = createdAt } of entries) {
+    const nameKey = placeCacheKey(city, name);
+    if (place.placeId && !miss) {
+      const idKey = placeIdKey(place.placeId);
+      docs.push({ id: idKey, doc: { nameKey: idKey, place, schemaVersion: PLACE_CACHE_VERSION, createdAt, updatedAt } });
+      docs.push({ id: nameKey, doc: { nameKey, city, name, placeId: place.placeId, updatedAt } });
+    } else {
+      docs.push({
+        id: nameKey,
+        doc: { nameKey, city, name, place, miss: miss || undefined, schemaVersion: PLACE_CACHE_VERSION, createdAt, updatedAt },
+      });
+    }
+  }
   try {
-    await (firestore as Firestore).collection(PLACE_COLLECTION).doc(key).set({
-      nameKey: key,
-      place,
-      createdAt: FieldValue.serverTimestamp(),
-      updatedAt: Timestamp.now(),
-    }, { merge: true });
-    console.log(`FIRESTORE: Upserted place enrichment for ${key}`);
+    await getCacheStore().setMany(PLACE_COLLECTION, docs);
+    console.log(`CACHE: Upserted ${entries.length} place enrichment(s)`);
   } catch (err) {
-    console.error(`FIRESTORE: Failed to upsert place enrichment for ${key}`, err);
+    console.error(`CACHE: Failed to upsert ${entries.length} place enrichment(s)`, err);
   }
 }
 
+export async function upsertPlaceEnrichment(name: string, place: EnrichedPlace, city = ''): Promise<void> {
+  await upsertPlaceEnrichments(city, [{ name, place }]);
+}
+
 export function isPlaceFresh(doc: PlaceEnrichmentDoc, now = Date.now()): boolean {
-  const updatedMs = doc.updatedAt?.toDate?.().getTime?.() || 0;
-  return updatedMs > 0 && now - updatedMs < PLACE_TTL_MS;
-}
\ No newline at end of file
+  const updatedMs = timestampMs(doc.updatedAt);
+  const ttl = doc.miss ? PLACE_MISS_TTL_MS : PLACE_TTL_MS;
+  return updatedMs > 0 && now - updatedMs < ttl;
+}
+
+/* ==============================
+ * Schema Migration
+ * ============================== */
+
+const MIGRATION_PAGE_SIZE = 200;
+
+export interface MigrationReport {
+  collection: string;
+  scanned: number;
+  upgraded: number;
+  /** Too old to upgrade; they would only ever be misses. */
+  removed: number;
+  /** Written by a newer schema; left for the deploy that understands them. */
+  skipped: number;
+}
+
+async function migrateCollection<T extends object>(
+  collection: string,
+  upgradeDoc: (doc: T) => UpgradeResult<T> | null,
+  dryRun: boolean
+): Promise<MigrationReport> {
+  const store = getCacheStore();
+  const report: MigrationReport = { collection, scanned: 0, upgraded: 0, removed: 0, skipped: 0 };
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await store.find<T>(collection, {}, MIGRATION_PAGE_SIZE, cursor);
+    if (!page.length) break;
+    cursor = page[page.length - 1].id;
+    report.scanned += page.length;
+
+    const rewrites: { id: string; doc: object }[] = [];
+    const removals: string[] = [];
+    for (const { id, doc } of page) {
+      const result = upgradeDoc(doc);
+      if (!result || result.status === 'current') continue;
+      if (result.status === 'upgraded') rewrites.push({ id, doc: result.doc });
+      else if (result.newer) report.skipped++;
+      else removals.push(id);
+    }
+    report.upgraded += rewrites.length;
+    report.removed += removals.length;
+    if (!dryRun) {
+      await store.setMany(collection, rewrites);
+      await store.delete(collection, removals);
+    }
+    if (page.length < MIGRATION_PAGE_SIZE) break;
+  }
+  console.log(`CACHE: ${dryRun ? 'Dry-run ' : ''}migration of ${collection}: ${JSON.stringify(report)}`);
+  return report;
+}
+
+/** A cached plan that asked for a v1-keyed name: its city, and the Places ids it resolved to there. */
+interface LegacyPlaceUse {
+  city: string;
+  name: string;
+  placeIds: Set<string>;
+}
+
+/**
+ * Every (city, name) a cached plan requested, by the v1 key the name maps
+ * to. Plans keep the names they were asked for in `meta.placesSignature`.
+ */
+async function legacyPlaceUses(): Promise<Map<string, LegacyPlaceUse[]>> {
+  const store = getCacheStore();
+  const uses = new Map<string, LegacyPlaceUse[]>();
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await store.find<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, {}, MIGRATION_PAGE_SIZE, cursor);
+    if (!page.length) break;
+    cursor = page[page.length - 1].id;
+    for (const { doc } of page) {
+      const placeIds = new Set((doc.places ?? []).flatMap(p => (p.placeId ? [p.placeId] : [])));
+      for (const name of (doc.meta?.placesSignature ?? '').split('|')) {
+        if (!normalizePlaceNameKey(name)) continue; // non-Latin names all share one v1 key
+        const key = placeKeyFromName(name);
+        uses.set(key, [...(uses.get(key) ?? []), { city: doc.city, name, placeIds }]);
+      }
+    }
+    if (page.length < MIGRATION_PAGE_SIZE) break;
+  }
+  return uses;
+}
+
+/**
+ * Empties the v1 place collection. v1 docs record neither city nor the name
+ * asked for, so a doc is moved only where a cached plan confirms it: the
+ * plan requested a name with that v1 key and resolved it to the doc's Places
+ * id. It then goes to that id's v2 doc with a city alias per such plan, and
+ * is read by `getPlaceEnrichments` from then on. Existing v2 docs are never
+ * overwritten. Everything else (misses, id-less docs, names no plan
+ * confirms) is discarded and counted as removed, to be looked up afresh.
+ */
+async function migrateLegacyPlaces(dryRun: boolean): Promise<MigrationReport> {
+  const store = getCacheStore();
+  const report: MigrationReport = { collection: LEGACY_PLACE_COLLECTION, scanned: 0, upgraded: 0, removed: 0, skipped: 0 };
+  const uses = await legacyPlaceUses();
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await store.find<PlaceEnrichmentDoc>(LEGACY_PLACE_COLLECTION, {}, MIGRATION_PAGE_SIZE, cursor);
+    if (!page.length) break;
+    cursor = page[page.length - 1].id;
+    report.scanned += page.length;
+
+    const writes = new Map<string, object>();
+    let moved = 0;
+    for (const { id, doc } of page) {
+      const placeId = doc.miss ? undefined : doc.place?.placeId;
+      const upgraded = placeId ? upgradePlaceDoc(doc) : null;
+      if (!placeId || !upgraded || upgraded.status === 'unreadable') continue;
+      const confirmed = (uses.get(id) ?? []).filter(use => use.placeIds.has(placeId));
+      if (!confirmed.length) continue;
+      moved++;
+      const idKey = placeIdKey(placeId);
+      writes.set(idKey, { ...upgraded.doc, nameKey: idKey });
+      for (const { city, name } of confirmed) {
+        const nameKey = placeCacheKey(city, name);
+        writes.set(nameKey, { nameKey, city, name, placeId, updatedAt: doc.updatedAt } satisfies PlaceAliasDoc);
+      }
+    }
+    const ids = Array.from(writes.keys());
+    const existing = ids.length ? await store.getMany(PLACE_COLLECTION, ids) : [];
+    const fresh = ids.filter((_, idx) => !existing[idx]).map(id => ({ id, doc: writes.get(id)! }));
+
+    report.upgraded += moved;
+    report.removed += page.length - moved;
+    if (!dryRun) {
+      await store.setMany(PLACE_COLLECTION, fresh);
+      await store.delete(LEGACY_PLACE_COLLECTION, page.map(({ id }) => id));
+    }
+    if (page.length < MIGRATION_PAGE_SIZE) break;
+  }
+  console.log(`CACHE: ${dryRun ? 'Dry-run ' : ''}migration of ${LEGACY_PLACE_COLLECTION}: ${JSON.stringify(report)}`);
+  return report;
+}
+
+/**
+ * Rewrites every stored itinerary and place enrichment in the current
+ * schema, and empties the v1 place collection (keeping what a cached plan
+ * confirms). Run after bumping a version in `cacheSchema.ts`; with `dryRun`
+ * it only counts what would change.
+ */
+export async function migrateCacheDocuments({ dryRun = false } = {}): Promise<MigrationReport[]> {
+  return [
+    await migrateCollection<FirestoreItineraryCacheV2>(ITINERARY_COLLECTION, upgradeItineraryDoc, dryRun),
+    // Alias docs carry no place data, so they have no schema to upgrade.
+    await migrateCollection<StoredPlaceDoc>(
+      PLACE_COLLECTION,
+      doc => ('place' in doc ? upgradePlaceDoc(doc) : null),
+      dryRun
+    ),
+    await migrateLegacyPlaces(dryRun),
+  ];
+}
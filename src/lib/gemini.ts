@@ -1,6 +1,7 @@
 // File: src/lib/gemini.ts
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { clampTripLength } from '@/lib/tripShape';
 
 const SECRET_NAME = 'projects/845341257082/secrets/gemini-api-key/versions/latest';
 
@@ -33,7 +34,7 @@ export async function getMarkdown(
   tripLength: number,
   cityName: string
 ): Promise<string> {
-  const days = Math.min(Math.max(tripLength, 3), 7);
+  const days = clampTripLength(tripLength);
   const list = places.map((p) => `- ${p.name}`).join('\n');
   const prompt = `Generate a ${days}-day Markdown itinerary for ${cityName}.\nEach day: ### Day N: Title [PHOTO_SUGGESTION: "Place Name"]. Use 2–4 of these places:\n${list}`;
 
@@ -0,0 +1,43 @@
+// src/lib/holidays.ts
+import holidayData from '@/data/publicHolidays.json';
+
+/* ==============================
+ * Public Holidays (bundled dataset)
+ * ============================== */
+
+export interface PublicHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+interface HolidayDataset {
+  years: number[];
+  countries: Record<string, { name: string; holidays: PublicHoliday[] }>;
+}
+
+const DATASET = holidayData as HolidayDataset;
+
+const byCountry = new Map(
+  Object.entries(DATASET.countries).map(([code, { holidays }]) => [
+    code,
+    new Map(holidays.map(h => [h.date, h])),
+  ])
+);
+
+/**
+ * The holiday on `date` in `country`, if any. Unknown countries and years
+ * outside the dataset simply have no holidays.
+ */
+export function publicHolidayOn(country: string | undefined, date: string): PublicHoliday | undefined {
+  if (!country) return undefined;
+  return byCountry.get(country.toUpperCase())?.get(date);
+}
+
+/**
+ * Cache-key fragment: which days are holidays. Empty when none are, so
+ * plans for ordinary dates keep sharing keys.
+ */
+export function holidayKey(holidays: (string | undefined)[]): string {
+  if (!holidays.some(Boolean)) return '';
+  return `h${holidays.map(h => (h ? 1 : 0)).join('')}`;
+}
@@ -0,0 +1,1240 @@
+// src/lib/itineraryGenerator.ts
+import { GoogleGenerativeAI, type Content, type GenerativeModel } from '@google/generative-ai';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { randomUUID } from 'crypto';
+
+import {
+  getCachedItinerary,
+  getCachedItineraryByKey,
+  storeCachedItinerary,
+  computePlacesSignature,
+  normalizeCityKey,
+  buildItineraryKey,
+  isItineraryFresh,
+  isItineraryServable,
+  claimGenerationLease,
+  isGenerationLeased,
+  renewGenerationLease,
+  releaseGenerationLease,
+  findSimilarItinerary,
+  itineraryReuseThreshold,
+  DEFAULT_ITINERARY_TTL_MS,
+  GENERATION_LEASE_MS,
+  type EnrichedPlace,
+  type LatLng,
+  type FirestoreItineraryCacheV2,
+  hashSignature,
+} from '@/lib/firestoreCache';
+import { timestampMs } from '@/lib/cacheStore';
+import { ITINERARY_CACHE_VERSION } from '@/lib/cacheSchema';
+import { enrichPlaces } from '@/lib/placeEnrichment';
+import {
+  validateItinerary,
+  validateItineraryDay,
+  validateItineraryActivity,
+  type GeminiActivity,
+  type GeminiDay,
+  type ValidationResult,
+} from '@/lib/itinerarySchema';
+import {
+  activityRangeFor,
+  describeDayFrame,
+  DEFAULT_DAY_START,
+  DEFAULT_DAY_END,
+  buildDayFrames,
+  tripShapeKey,
+  todayIsoDate,
+  weekdayName,
+  type DayFrame,
+  type TripShape,
+} from '@/lib/tripShape';
+import {
+  describeProfile,
+  isDefaultProfile,
+  canonicalProfile,
+  type TravellerProfile,
+} from '@/lib/travellerProfile';
+import { scheduleDay, isClosedAllDay, type TimedSlot } from '@/lib/schedule';
+import { publicHolidayOn, holidayKey } from '@/lib/holidays';
+import type { CostEstimate } from '@/lib/budget';
+import {
+  orderStops,
+  rebalanceDays,
+  routeStats,
+  legMinutes,
+  clusterByProximity,
+  haversineKm,
+  type DayRouteStats,
+  type CityTransfer,
+} from '@/lib/routing';
+import {
+  forecastTrip,
+  forecastByDay,
+  weatherKey,
+  describeForecast,
+  type DayForecast,
+  type ForecastSummary,
+} from '@/lib/weather';
+
+// --- Constants ---
+const GEMINI_SECRET_NAME = 'projects/934477100130/secrets/gemini-api-key/versions/latest';
+const MAPS_SECRET_NAME   = 'projects/934477100130/secrets/places-api-key/versions/latest';
+export const GEMINI_MODEL = 'gemini-2.5-flash-lite';
+
+const MAX_GENERATION_ATTEMPTS = 3;
+const MAX_REPORTED_ERRORS     = 15;
+
+// --- Types ---
+export interface IncomingPlace { name: string }
+
+export interface ItineraryActivity {
+  title: string;
+  description: string;
+  whyVisit: string;
+  insiderTip: string;
+  priceRange: string;
+  audience: string;
+  placeName: string;
+  startTime: string;
+  durationMinutes: number;
+  setting?: 'indoor' | 'outdoor' | 'mixed';
+  /** Per person, in the local currency; plans cached before costs lack it. */
+  cost?: CostEstimate;
+}
+
+/** Place fields copied onto each activity; opening hours stay on the place. */
+type ActivityPlaceFields = Partial<Omit<EnrichedPlace, 'openingHours'>>;
+
+export interface ItineraryDay extends Partial<DayFrame>, Partial<DayRouteStats> {
+  title: string;
+  dayPhotoUrl?: string;
+  activities: (ItineraryActivity & TimedSlot & ActivityPlaceFields)[];
+  /** Multi-city trips only: the leg's city, and the journey that starts the leg. */
+  city?: string;
+  transfer?: CityTransfer;
+  /** The journey fills the day; nothing else is planned. */
+  travelOnly?: boolean;
+  weather?: DayForecast;
+  /** Indoor fallbacks suggested alongside a forecast. */
+  indoorAlternatives?: string[];
+}
+
+export interface FullItineraryResponse {
+  city: string;
+  days: number;
+  places: EnrichedPlace[];
+  itinerary: ItineraryDay[];
+  createdAt: string; // always present
+  cacheKey?: string; // itineraryCache_v2 doc id, used to edit the plan later
+  weather?: ForecastSummary;
+}
+
+/** Everything that shapes a generated plan (and therefore its cache key). */
+export interface ItineraryRequest {
+  places: EnrichedPlace[];
+  frames: DayFrame[];
+  cityName: string;
+  profile: TravellerProfile;
+  /** Per-day forecast, by index; days without one are planned as before. */
+  forecast?: (DayForecast | undefined)[];
+}
+
+export interface GeneratedItinerary {
+  itinerary: ItineraryDay[];
+  prompt: string;
+  rawText: string;
+  attempts: number;
+}
+
+/** One city's plan as requested by a route: raw places, shape and profile. */
+export interface CityPlanRequest {
+  cityName: string;
+  places: IncomingPlace[];
+  shape: TripShape;
+  profile: TravellerProfile;
+  /** City centre for the forecast; without it the plan ignores the weather. */
+  location?: LatLng;
+  /** Undated trips only: day 1's date for the forecast; defaults to today. */
+  startDate?: string;
+  country?: string; // ISO 3166-1 alpha-2, for public holidays on dated trips
+}
+
+export interface CityPlanCallbacks {
+  /**
+   * Places are known: straight from the cache, or once enrichment finishes.
+   * `cacheKey` is where the plan is (or will be) stored.
+   */
+  onPlaces?: (places: EnrichedPlace[], cached: boolean, cacheKey: string) => void | Promise<void>;
+  /** When set, days are streamed as they validate instead of generated in one batch. */
+  onDay?: (day: ItineraryDay, index: number) => void | Promise<void>;
+}
+
+/** A stored plan plus what is needed to re-plan part of it. */
+export interface ItineraryEditRequest {
+  places: EnrichedPlace[];
+  itinerary: ItineraryDay[];
+  cityName: string;
+  profile: TravellerProfile;
+}
+
+export interface EditedDay {
+  day: ItineraryDay;
+  prompt: string;
+  rawText: string;
+  attempts: number;
+}
+
+export type ItineraryCacheWrite = Omit<FirestoreItineraryCacheV2, 'updatedAt'>;
+
+// --- Singletons ---
+let secretManagerClient: SecretManagerServiceClient | null = null;
+let cachedGeminiClient: GoogleGenerativeAI | null = null;
+let cachedGeminiKey: string | null = null;
+let cachedMapsKey: string | null = null;
+
+// --- Helpers ---
+async function getSecret(name: string): Promise<string> {
+  if (!secretManagerClient) secretManagerClient = new SecretManagerServiceClient();
+  const [version] = await secretManagerClient.accessSecretVersion({ name });
+  const data = version.payload?.data?.toString();
+  if (!data) throw new Error(`Secret '${name}' returned an empty payload.`);
+  return data;
+}
+
+export async function getApiKeys(): Promise<{ geminiKey: string; mapsKey: string }> {
+  if (!cachedGeminiKey) cachedGeminiKey = await getSecret(GEMINI_SECRET_NAME);
+  if (!cachedMapsKey)   cachedMapsKey   = await getSecret(MAPS_SECRET_NAME);
+  return { geminiKey: cachedGeminiKey, mapsKey: cachedMapsKey };
+}
+
+function extractJsonFromString(text: string): string | null {
+  const match = text.match(/```json\s*([\s\S]*?)```/i);
+  const tryParse = (s: string | null) => {
+    if (!s) return null;
+    try { JSON.parse(s); return s; } catch { return null; }
+  };
+  const codeBlock = tryParse(match ? match[1] : null);
+  if (codeBlock) return codeBlock;
+
+  const first = text.indexOf('{');
+  const last  = text.lastIndexOf('}');
+  if (first === -1 || last <= first) return null;
+  return tryParse(text.slice(first, last + 1));
+}
+
+/**
+ * Cache variant for a traveller profile. The default profile keeps the
+ * original 'basic' variant so existing cache entries stay valid.
+ */
+export function profileVariant(profile: TravellerProfile): string {
+  if (isDefaultProfile(profile)) return 'basic';
+  return `p-${hashSignature(JSON.stringify(canonicalProfile(profile)), 10)}`;
+}
+
+export function responseFromCache(cached: FirestoreItineraryCacheV2, cacheKey?: string): FullItineraryResponse {
+  return {
+    city: cached.city,
+    days: cached.days,
+    places: cached.places as EnrichedPlace[],
+    itinerary: cached.itinerary as ItineraryDay[],
+    createdAt: cached.createdAt ?? new Date(timestampMs(cached.updatedAt)).toISOString(),
+    cacheKey,
+    weather: cached.weather,
+  };
+}
+
+export function buildCacheWrite(
+  normCity: string,
+  response: FullItineraryResponse,
+  generated: GeneratedItinerary,
+  keying: {
+    placesSignature: string;
+    signatureHash: string;
+    variant: string;
+    shape?: string;
+    profile?: TravellerProfile;
+  }
+): ItineraryCacheWrite {
+  return {
+    city: normCity, // store normalized city in doc
+    days: response.days,
+    places: response.places,
+    itinerary: response.itinerary,
+    createdAt: response.createdAt,
+    weather: response.weather,
+    meta: {
+      cacheVersion: ITINERARY_CACHE_VERSION,
+      model: GEMINI_MODEL,
+      prompt: generated.prompt,
+      rawGeminiText: generated.rawText,
+      generationAttempts: generated.attempts,
+      placesSignature: keying.placesSignature,
+      signatureHash: keying.signatureHash,
+      variant: keying.variant,
+      shape: keying.shape ?? '',
+      profile: keying.profile,
+      summaryLevel: 'standard',
+      responseType: 'json',
+      ttlMs: DEFAULT_ITINERARY_TTL_MS,
+      source: 'generated',
+    },
+  };
+}
+
+function cityPlanKeying(
+  { cityName, places, shape: tripShape, profile }: CityPlanRequest,
+  frames: DayFrame[],
+  forecast: (DayForecast | undefined)[]
+) {
+  const normCity = normalizeCityKey(cityName);
+  const days = tripShape.days;
+  const shape = tripShapeKey(tripShape);
+  // Cross-user cache keying by places set
+  const sig = computePlacesSignature(places);
+  const sigHash = hashSignature(sig); // short hash in key
+  // Different profiles never share a plan, nor do different wet-day or holiday patterns.
+  const variant = [profileVariant(profile), weatherKey(forecast), holidayKey(frames.map(f => f.holiday))]
+    .filter(Boolean)
+    .join('-');
+  const cacheKey = buildItineraryKey(normCity, days, sigHash, variant, shape);
+  return { normCity, days, shape, sig, sigHash, variant, cacheKey };
+}
+
+/** Flags the days of a dated trip that fall on a public holiday. */
+function markHolidays(frames: DayFrame[], country: string | undefined): DayFrame[] {
+  return frames.map(frame => {
+    const holiday = frame.date ? publicHolidayOn(country, frame.date) : undefined;
+    return holiday ? { ...frame, holiday: holiday.name } : frame;
+  });
+}
+
+type PlannedCity = FullItineraryResponse & { cacheKey: string };
+
+/** Everything `planCityItinerary` settles before it reads the cache. */
+interface CityPlanContext {
+  request: CityPlanRequest;
+  frames: DayFrame[];
+  weather?: ForecastSummary;
+  forecast: (DayForecast | undefined)[];
+  keying: ReturnType<typeof cityPlanKeying>;
+  label: string;
+}
+
+/** How often a request waiting on another instance's generation looks for the result. */
+const LEASE_POLL_MS = 1500;
+/** How often a generation renews its lease; well inside GENERATION_LEASE_MS so a slow model never lets it lapse. */
+const LEASE_HEARTBEAT_MS = GENERATION_LEASE_MS / 3;
+/** Longest a request waits on another instance's generation before running its own. */
+const LEASE_WAIT_MS = GENERATION_LEASE_MS + 30 * 1000;
+
+/** Generations running in this process, by cache key; identical requests join them. */
+const inFlightPlans = new Map<string, Promise<PlannedCity>>();
+/** Cache keys with a background refresh running in this process. */
+const refreshingKeys = new Set<string>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function leaseOwner(): string {
+  return `${process.pid}-${randomUUID()}`;
+}
+
+/** Runs `work` under a held lease, renewing it until the work settles and then giving it back. */
+async function holdingLease<T>(cacheKey: string, owner: string, work: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    void renewGenerationLease(cacheKey, owner).then(held => {
+      if (!held) console.warn(`API: Lost the generation lease on ${cacheKey}; another instance may generate it too.`);
+    });
+  }, LEASE_HEARTBEAT_MS);
+  try {
+    return await work();
+  } finally {
+    clearInterval(heartbeat);
+    await releaseGenerationLease(cacheKey, owner);
+  }
+}
+
+/**
+ * The key records only the start weekday, so a plan may have been made for
+ * an earlier trip: each day takes this trip's date and holiday.
+ */
+function redateDay(day: ItineraryDay, frame: DayFrame | undefined): ItineraryDay {
+  if (!frame) return day;
+  return { ...day, date: frame.date, weekday: frame.weekday, holiday: frame.holiday };
+}
+
+function planFromCache(cached: FirestoreItineraryCacheV2, { keying, frames, weather, forecast }: CityPlanContext): PlannedCity {
+  const resp = responseFromCache(cached, keying.cacheKey);
+  resp.itinerary = resp.itinerary.map((day, i) => redateDay(day, frames[i]));
+  // Same wet days as when it was planned; show today's forecast details.
+  if (weather) {
+    resp.weather = weather;
+    resp.itinerary = resp.itinerary.map((day, i) => (forecast[i] ? { ...day, weather: forecast[i] } : day));
+  }
+  return { ...resp, cacheKey: keying.cacheKey };
+}
+
+/** Plays a finished plan through the callbacks in one burst, as a cache hit does. */
+async function replayPlan(plan: PlannedCity, { onPlaces, onDay }: CityPlanCallbacks): Promise<PlannedCity> {
+  await onPlaces?.(plan.places, true, plan.cacheKey);
+  if (onDay) for (const [index, day] of plan.itinerary.entries()) await onDay(day, index);
+  return plan;
+}
+
+/**
+ * Cuts a near-duplicate plan down to `places`: visits to places no longer
+ * requested are dropped and each day is re-routed and re-timed in the current
+ * frames. Only plans that include every requested place are adapted (see
+ * `findSimilarItinerary`), so no place is left unscheduled for lack of a
+ * written visit. Null when a day would be left empty.
+ */
+function adaptItinerary(
+  days: ItineraryDay[],
+  places: EnrichedPlace[],
+  frames: DayFrame[],
+  forecast: (DayForecast | undefined)[]
+): ItineraryDay[] | null {
+  const adapted: ItineraryDay[] = [];
+  for (const [i, day] of days.entries()) {
+    const kept = day.activities.filter(act => findPlace(places, act.placeName));
+    if (!kept.length) return null;
+    const photoPlace = kept.find(act => act.photoUrl && act.photoUrl === day.dayPhotoUrl) ?? kept[0];
+    adapted.push(hydrateDay(
+      {
+        title: day.title,
+        dayPhotoSuggestion: photoPlace.placeName,
+        activities: kept.map(toGeminiActivity),
+        indoorAlternatives: day.indoorAlternatives,
+      },
+      places,
+      frames[i] ?? frameOf(day),
+      forecast[i] ?? day.weather
+    ));
+  }
+  return adapted;
+}
+
+/**
+ * Reuses a cached plan for a nearly identical place set instead of calling
+ * Gemini, and stores the adaptation under this request's key. The copy keeps
+ * the source's `createdAt`, so it expires with the plan it came from.
+ */
+async function adaptSimilarPlan({ request, frames, weather, forecast, keying, label }: CityPlanContext, places: EnrichedPlace[]): Promise<PlannedCity | null> {
+  const minSimilarity = itineraryReuseThreshold();
+  if (minSimilarity === null) return null;
+  const { normCity, days, shape, sig, sigHash, variant, cacheKey } = keying;
+  const match = await findSimilarItinerary(normCity, days, sig, { variant, shape, minSimilarity });
+  if (!match) return null;
+  const itinerary = adaptItinerary(match.doc.itinerary as ItineraryDay[], places, frames, forecast);
+  if (!itinerary) {
+    console.log(`API: ${match.key} is similar to ${label} but leaves a day empty; generating instead.`);
+    return null;
+  }
+
+  const createdAt = match.doc.createdAt ?? new Date(timestampMs(match.doc.updatedAt)).toISOString();
+  const response = { city: request.cityName, days, places, itinerary, createdAt, cacheKey, weather };
+  await storeCachedItinerary(normCity, days, {
+    city: normCity,
+    days,
+    places,
+    itinerary,
+    createdAt,
+    weather,
+    meta: {
+      cacheVersion: ITINERARY_CACHE_VERSION,
+      model: match.doc.meta?.model,
+      placesSignature: sig,
+      signatureHash: sigHash,
+      variant,
+      shape,
+      profile: request.profile,
+      summaryLevel: 'standard',
+      responseType: 'json',
+      ttlMs: match.doc.meta?.ttlMs ?? DEFAULT_ITINERARY_TTL_MS,
+      source: 'adapted',
+      adaptedFrom: match.key,
+      similarity: match.similarity,
+    },
+  }, { signatureHash: sigHash, variant, shape });
+  console.log(`API: Adapted ${match.key} (similarity ${match.similarity.toFixed(2)}) for ${label}.`);
+  return response;
+}
+
+/**
+ * Enrichment, generation and cache write; the callbacks see places and days
+ * as they come. A near-duplicate cached plan is adapted instead when there is one.
+ */
+async function generateCityPlan(
+  context: CityPlanContext,
+  { onPlaces, onDay }: CityPlanCallbacks = {}
+): Promise<PlannedCity> {
+  const { request, frames, weather, forecast, keying, label } = context;
+  const { cityName, places, profile } = request;
+  const { normCity, days, shape, sig, sigHash, variant, cacheKey } = keying;
+
+  // --- Enrich (shared per-place cache) & Generate ---
+  const { geminiKey, mapsKey } = await getApiKeys();
+  const enrichedPlaces = await enrichPlaces(places.map(p => p?.name), mapsKey, { city: cityName, tier: 'full' });
+  await onPlaces?.(enrichedPlaces, false, cacheKey);
+
+  const adapted = await adaptSimilarPlan(context, enrichedPlaces);
+  if (adapted) {
+    if (onDay) for (const [index, day] of adapted.itinerary.entries()) await onDay(day, index);
+    return adapted;
+  }
+
+  const generationRequest = {
+    places: enrichedPlaces,
+    frames,
+    cityName,
+    profile,
+    forecast: weather ? forecast : undefined,
+  };
+  const generated = onDay
+    ? await generateItineraryStream(geminiKey, generationRequest, onDay)
+    : await generateItineraryJson(geminiKey, generationRequest);
+
+  const response = {
+    city: cityName,
+    days,
+    places: enrichedPlaces,
+    itinerary: generated.itinerary,
+    createdAt: new Date().toISOString(),
+    cacheKey,
+    weather,
+  };
+
+  // --- Cache write: only a complete, validated plan reaches the shared cache ---
+  const toCache = buildCacheWrite(normCity, response, generated, {
+    placesSignature: sig,
+    signatureHash: sigHash,
+    variant,
+    shape,
+    profile,
+  });
+  await storeCachedItinerary(normCity, days, toCache, { signatureHash: sigHash, variant, shape });
+  console.log(`API: Stored itinerary for ${label}.`);
+
+  return response;
+}
+
+/**
+ * Generates under the key's lease. While another instance holds it, waits
+ * for that plan to reach the cache instead, and takes over if the lease is
+ * released or lapses without one. A holder that keeps renewing without ever
+ * finishing is given up on after LEASE_WAIT_MS: the request then generates
+ * without the lease, as a duplicate beats a hung request.
+ */
+async function generateUnderLease(context: CityPlanContext, callbacks: CityPlanCallbacks): Promise<PlannedCity> {
+  const { keying: { cacheKey }, label } = context;
+  const owner = leaseOwner();
+  const deadline = Date.now() + LEASE_WAIT_MS;
+  while (!(await claimGenerationLease(cacheKey, owner))) {
+    if (Date.now() >= deadline) {
+      console.warn(`API: Gave up waiting on another instance's generation for ${label}; generating here.`);
+      return generateCityPlan(context, callbacks);
+    }
+    await sleep(LEASE_POLL_MS);
+    if (await isGenerationLeased(cacheKey)) continue;
+    const cached = await getCachedItineraryByKey(cacheKey);
+    if (cached && isItineraryFresh(cached)) {
+      console.log(`API: Returning itinerary generated by another instance for ${label}.`);
+      return replayPlan(planFromCache(cached, context), callbacks);
+    }
+  }
+  return holdingLease(cacheKey, owner, () => generateCityPlan(context, callbacks));
+}
+
+/**
+ * One generation per cache key: the first request runs it (streaming to its
+ * own callbacks) and identical requests arriving meanwhile replay its result.
+ */
+async function generateOnce(context: CityPlanContext, callbacks: CityPlanCallbacks): Promise<PlannedCity> {
+  const { keying: { cacheKey }, label } = context;
+  const running = inFlightPlans.get(cacheKey);
+  if (running) {
+    console.log(`API: Joining in-flight generation for ${label}.`);
+    return replayPlan(await running, callbacks);
+  }
+  const plan = generateUnderLease(context, callbacks).finally(() => inFlightPlans.delete(cacheKey));
+  inFlightPlans.set(cacheKey, plan);
+  return plan;
+}
+
+/**
+ * Regenerates a stale entry without holding up the request that found it.
+ * Skipped when this process or another instance is already generating it.
+ */
+function refreshInBackground(context: CityPlanContext): void {
+  const { keying: { cacheKey }, label } = context;
+  if (refreshingKeys.has(cacheKey) || inFlightPlans.has(cacheKey)) return;
+  refreshingKeys.add(cacheKey);
+  const owner = leaseOwner();
+  void (async () => {
+    try {
+      if (!(await claimGenerationLease(cacheKey, owner))) return;
+      console.log(`API: Refreshing stale itinerary for ${label} in the background.`);
+      await holdingLease(cacheKey, owner, () => generateCityPlan(context));
+    } catch (err) {
+      console.error(`API: Background refresh failed for ${label}`, err);
+    } finally {
+      refreshingKeys.delete(cacheKey);
+    }
+  })();
+}
+
+/**
+ * Forecast, cache lookup, enrichment, generation and cache write for one
+ * city. Cache hits replay through the same callbacks, so callers need not
+ * care where the plan came from. Stale entries are served while a refresh
+ * runs in the background; identical concurrent requests share a generation.
+ */
+export async function planCityItinerary(
+  request: CityPlanRequest,
+  callbacks: CityPlanCallbacks = {}
+): Promise<PlannedCity> {
+  const { shape: tripShape, location, country } = request;
+  const startDate = tripShape.startDate ?? request.startDate ?? todayIsoDate();
+  const weather = location ? await forecastTrip(location, startDate, tripShape.days) : undefined;
+  const forecast = forecastByDay(weather, tripShape.days);
+  const frames = markHolidays(buildDayFrames(tripShape), country);
+  const keying = cityPlanKeying(request, frames, forecast);
+  const { normCity, days, shape, sigHash, variant } = keying;
+  const label = `${normCity}, ${days} days${shape ? ` (${shape})` : ''}, sig=${sigHash}`;
+  const context: CityPlanContext = { request, frames, weather, forecast, keying, label };
+
+  // --- Cache read (shared across users) ---
+  const cached = await getCachedItinerary(normCity, days, { signatureHash: sigHash, variant, shape, countLookup: true });
+  if (cached && isItineraryServable(cached)) {
+    const fresh = isItineraryFresh(cached);
+    console.log(`API: Returning ${fresh ? 'FRESH' : 'STALE'} cached itinerary for ${label}.`);
+    if (!fresh) refreshInBackground(context);
+    return replayPlan(planFromCache(cached, context), callbacks);
+  }
+
+  return generateOnce(context, callbacks);
+}
+
+// --- Gemini itinerary generation ---
+function getItineraryModel(geminiKey: string, json: boolean): GenerativeModel {
+  if (!cachedGeminiClient) cachedGeminiClient = new GoogleGenerativeAI(geminiKey);
+  return cachedGeminiClient.getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig: json ? { responseMimeType: 'application/json' } : undefined,
+  });
+}
+
+const COST_SHAPE =
+  `"cost" is the per-person estimate {"min": number, "max": number, "currency": ISO 4217 code of the local currency, ` +
+  `"category": "entry"|"food"|"transport"}; use 0 for both amounts when it is free.\n`;
+
+const DAY_SHAPE =
+  `Each day object: {"title": string, "dayPhotoSuggestion": string (one of the listed places), "activities": [\n` +
+  `  {"title","description","whyVisit","insiderTip","priceRange","audience","placeName","startTime","durationMinutes","cost"}\n` +
+  `]}\n` +
+  `Every activity text field is a non-empty string, and "placeName" must be one of the listed places.\n` +
+  `"startTime" is a 24-hour "HH:MM" local time inside the day's window and "durationMinutes" an integer; ` +
+  `order activities by start time and respect each place's usual opening hours.\n` +
+  COST_SHAPE;
+
+function buildRepairPrompt(errors: string[]): string {
+  return (
+    `Your previous reply failed validation:\n` +
+    errors.slice(0, MAX_REPORTED_ERRORS).map(e => `- ${e}`).join('\n') +
+    `\nReply again with the complete corrected JSON object only. ` +
+    `Every "placeName" must be copied exactly from the supplied list.`
+  );
+}
+
+function describeAreas(places: EnrichedPlace[]): string {
+  const groups = clusterByProximity(places, p => p.location).filter(g => g.length > 1);
+  if (!groups.length) return '';
+  return (
+    `These places are within walking distance of each other; keep each group on the same day where possible: ` +
+    groups.map(g => `[${g.map(p => `"${p.name}"`).join(', ')}]`).join(', ') +
+    '.\n'
+  );
+}
+
+const WEATHER_ACTIVITY_FIELDS =
+  `Give every activity a "setting" of "indoor", "outdoor" or "mixed", and every day an ` +
+  `"indoorAlternatives" array of up to 3 short strings naming indoor options nearby in case of bad weather.\n`;
+
+function describeWeather(forecast: (DayForecast | undefined)[] | undefined): string {
+  if (!forecast?.some(Boolean)) return '';
+  const lines = forecast
+    .map((day, i) => (day ? `- Day ${i + 1} (${day.date}): ${describeForecast(day)}${day.wet ? ' — WET' : ''}` : ''))
+    .filter(Boolean);
+  return (
+    `Weather forecast:\n${lines.join('\n')}\n` +
+    `Put outdoor sights (parks, viewpoints, walks, markets) on dry days and museums, galleries and ` +
+    `other indoor places on WET days.\n` +
+    WEATHER_ACTIVITY_FIELDS
+  );
+}
+
+/** Places known to be shut on some of the trip's weekdays. */
+function describeClosures(places: EnrichedPlace[], frames: DayFrame[]): string {
+  const weekdays = [...new Set(frames.flatMap(f => (f.weekday === undefined ? [] : [f.weekday])))];
+  if (!weekdays.length) return '';
+  const closures = places.flatMap(p => {
+    const closed = weekdays.filter(d => isClosedAllDay(p.openingHours, d));
+    return closed.length ? [`"${p.name}" is closed on ${closed.map(weekdayName).join(' and ')}`] : [];
+  });
+  if (!closures.length) return '';
+  return `Never plan a place on a day it is closed: ${closures.join('; ')}.\n`;
+}
+
+function describeFrames(frames: DayFrame[], profile: TravellerProfile): string {
+  return (
+    `Day-by-day time windows:\n` +
+    frames.map((f, i) => `- ${describeDayFrame(f, i + 1, profile.pace)}`).join('\n') +
+    '\n'
+  );
+}
+
+/** Prompt lines shared by the batch and streaming generators. */
+function describeRequest(request: ItineraryRequest): string {
+  const placeList = request.places.map(p => `"${p.name}"`).join(', ');
+  return (
+    `Use ONLY these places where appropriate: [${placeList}].\n` +
+    describeProfile(request.profile) +
+    describeAreas(request.places) +
+    describeFrames(request.frames, request.profile) +
+    describeClosures(request.places, request.frames) +
+    describeWeather(request.forecast) +
+    DAY_SHAPE
+  );
+}
+
+function maxActivitiesFor(request: ItineraryRequest): number[] {
+  return request.frames.map(f => activityRangeFor(f, request.profile.pace).max);
+}
+
+function findPlace(places: EnrichedPlace[], name: string): EnrichedPlace | undefined {
+  return (
+    places.find(p => p.name === name) ||
+    places.find(p => p.name.toLowerCase() === name.toLowerCase())
+  );
+}
+
+function placeFields(place: EnrichedPlace | undefined): ActivityPlaceFields {
+  if (!place) return {};
+  const { name, placeId, photoUrl, website, googleMapsUrl, location } = place;
+  return { name, placeId, photoUrl, website, googleMapsUrl, location };
+}
+
+/**
+ * Resolves places, orders the day for the shortest walk, then lays out times.
+ * The model's proposed start times are kept only while they still run in
+ * order after routing; otherwise the day is re-timed from its start.
+ */
+function hydrateDay(day: GeminiDay, places: EnrichedPlace[], frame: DayFrame, weather?: DayForecast): ItineraryDay {
+  const photoPlace = places.find(
+    p => p.name.toLowerCase() === day.dayPhotoSuggestion.toLowerCase()
+  );
+  const locate = (act: ItineraryActivity) => findPlace(places, act.placeName)?.location;
+  const ordered = orderStops(day.activities, locate);
+  const timesInOrder = ordered.every((act, i) => i === 0 || ordered[i - 1].startTime <= act.startTime);
+  const activities = ordered.map((act: ItineraryActivity) => ({
+    ...act,
+    ...(timesInOrder ? {} : { startTime: '' }),
+    ...placeFields(findPlace(places, act.placeName)),
+  }));
+  return {
+    title: day.title,
+    dayPhotoUrl: photoPlace?.photoUrl ?? places.find(p => p.photoUrl)?.photoUrl,
+    activities: scheduleDay(activities, frame, {
+      hoursFor: act => findPlace(places, act.placeName)?.openingHours,
+      transferMinutes: (from, to) => legMinutes(from, to, locate),
+      weekday: frame.weekday,
+    }),
+    ...frame,
+    ...routeStats(ordered, locate),
+    ...(weather ? { weather } : {}),
+    ...(day.indoorAlternatives?.length ? { indoorAlternatives: day.indoorAlternatives } : {}),
+  };
+}
+
+/** Moves activities between days so each day stays around one area. */
+function rebalanceItinerary(days: GeminiDay[], places: EnrichedPlace[], capacities: number[]): GeminiDay[] {
+  const locate = (act: ItineraryActivity) => findPlace(places, act.placeName)?.location;
+  const balanced = rebalanceDays(days.map(d => d.activities), locate, capacities);
+  return days.map((day, i) => ({ ...day, activities: balanced[i] }));
+}
+
+/**
+ * Swaps outdoor activities on wet days with indoor ones on dry days, one for
+ * one so every day keeps its size. Relies on the model's `setting` tags.
+ */
+function moveOutdoorToDryDays(days: GeminiDay[], forecast: (DayForecast | undefined)[]): GeminiDay[] {
+  const result = days.map(day => ({ ...day, activities: [...day.activities] }));
+  const dryDays = result.filter((_, i) => forecast[i] && !forecast[i]!.wet);
+  result.forEach((day, i) => {
+    if (!forecast[i]?.wet) return;
+    day.activities.forEach((act, ai) => {
+      if (act.setting !== 'outdoor') return;
+      for (const dry of dryDays) {
+        const di = dry.activities.findIndex(a => a.setting === 'indoor');
+        if (di === -1) continue;
+        day.activities[ai] = dry.activities[di];
+        dry.activities[di] = act;
+        return;
+      }
+    });
+  });
+  return result;
+}
+
+/**
+ * On dated trips, moves visits away from days their place is shut: first by
+ * swapping with a visit on another day where both places are open, then by
+ * moving into a day with room to spare. Visits that cannot move stay put and
+ * are flagged `closedAtTime` when scheduled.
+ */
+function moveFromClosedDays(
+  days: GeminiDay[],
+  places: EnrichedPlace[],
+  frames: DayFrame[],
+  capacities: number[]
+): GeminiDay[] {
+  const result = days.map(day => ({ ...day, activities: [...day.activities] }));
+  const closedOn = (act: GeminiActivity, dayIndex: number) => {
+    const weekday = frames[dayIndex]?.weekday;
+    return weekday !== undefined && isClosedAllDay(findPlace(places, act.placeName)?.openingHours, weekday);
+  };
+
+  result.forEach((day, i) => {
+    for (let ai = 0; ai < day.activities.length; ai++) {
+      const act = day.activities[ai];
+      if (!closedOn(act, i)) continue;
+      let moved = false;
+      for (let j = 0; j < result.length && !moved; j++) {
+        if (j === i || closedOn(act, j)) continue;
+        const bi = result[j].activities.findIndex(other => !closedOn(other, i));
+        if (bi !== -1) {
+          day.activities[ai] = result[j].activities[bi];
+          result[j].activities[bi] = act;
+          moved = true;
+        }
+      }
+      for (let j = 0; j < result.length && !moved; j++) {
+        if (j === i || closedOn(act, j) || day.activities.length <= 1) continue;
+        if (result[j].activities.length < capacities[j]) {
+          day.activities.splice(ai, 1);
+          result[j].activities.push(act);
+          ai--;
+          moved = true;
+        }
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * The cross-day passes every plan goes through before it is hydrated, batch
+ * or streamed: rebalance by area, then move outdoor visits off wet days,
+ * then visits off days their place is shut. Both routes cache under the same
+ * key, so both must come out the same way.
+ */
+function finishItinerary(days: GeminiDay[], { places, frames, forecast = [] }: ItineraryRequest, maxActivities: number[]): ItineraryDay[] {
+  const balanced = rebalanceItinerary(days, places, maxActivities);
+  const dry = moveOutdoorToDryDays(balanced, forecast);
+  return moveFromClosedDays(dry, places, frames, maxActivities)
+    .map((day, i) => hydrateDay(day, places, frames[i], forecast[i]));
+}
+
+/**
+ * Asks for JSON until `validate` accepts it. The conversation grows with each
+ * failed attempt so the model sees its own output alongside the validation
+ * errors it has to fix.
+ */
+async function generateValidated<T>(
+  model: GenerativeModel,
+  prompt: string,
+  label: string,
+  validate: (data: unknown) => ValidationResult<T>
+): Promise<{ data: T; rawText: string; attempts: number }> {
+  const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const result = await model.generateContent({ contents });
+    const rawText = result.response.text();
+
+    const cleanJson = extractJsonFromString(rawText);
+    const validation = cleanJson
+      ? validate(JSON.parse(cleanJson))
+      : { success: false as const, errors: ['Response was not a valid JSON object.'] };
+    if (validation.success) return { data: validation.data, rawText, attempts: attempt };
+
+    lastErrors = validation.errors;
+    console.warn(
+      `API: Gemini ${label} failed validation (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}):`,
+      lastErrors.slice(0, MAX_REPORTED_ERRORS)
+    );
+    contents.push(
+      { role: 'model', parts: [{ text: rawText }] },
+      { role: 'user', parts: [{ text: buildRepairPrompt(lastErrors) }] }
+    );
+  }
+
+  throw new Error(
+    `Gemini ${label} failed validation after ${MAX_GENERATION_ATTEMPTS} attempts: ` +
+    lastErrors.slice(0, MAX_REPORTED_ERRORS).join('; ')
+  );
+}
+
+export async function generateItineraryJson(
+  geminiKey: string,
+  request: ItineraryRequest
+): Promise<GeneratedItinerary> {
+  const { places, frames, cityName } = request;
+  const model = getItineraryModel(geminiKey, true);
+  const days = frames.length;
+  const maxActivities = maxActivitiesFor(request);
+
+  const placeNames = places.map(p => p.name);
+  const prompt =
+    `You are a world-class travel concierge.\n` +
+    `For a ${days}-day trip to ${cityName}, reply with a single valid JSON object like: {"itinerary":[...]}\n` +
+    `The "itinerary" array must contain exactly ${days} day objects.\n` +
+    describeRequest(request) +
+    `Do not include Markdown or code fences unless the content is valid JSON inside them.`;
+
+  const { data, rawText, attempts } = await generateValidated(
+    model, prompt, 'itinerary',
+    json => validateItinerary(json, placeNames, maxActivities)
+  );
+  const itinerary = finishItinerary(data, request, maxActivities);
+  return { itinerary, prompt, rawText, attempts };
+}
+
+// --- Streaming (one day per JSON object) ---
+
+/**
+ * Incrementally splits streamed text into top-level JSON objects by tracking
+ * brace depth, so both NDJSON and pretty-printed objects are handled.
+ */
+function createJsonObjectSplitter() {
+  let buffer = '';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+
+  return (chunk: string): string[] => {
+    const out: string[] = [];
+    const offset = buffer.length;
+    buffer += chunk;
+    for (let i = offset; i < buffer.length; i++) {
+      const ch = buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"' && depth > 0) inString = true;
+      else if (ch === '{') {
+        if (depth === 0) start = i;
+        depth++;
+      } else if (ch === '}' && depth > 0) {
+        depth--;
+        if (depth === 0 && start !== -1) {
+          out.push(buffer.slice(start, i + 1));
+          start = -1;
+        }
+      }
+    }
+    // Drop consumed text so the buffer only holds the object in progress.
+    if (depth === 0) buffer = '';
+    else if (start > 0) { buffer = buffer.slice(start); start = 0; }
+    return out;
+  };
+}
+
+async function repairDay(
+  model: GenerativeModel,
+  prompt: string,
+  dayNumber: number,
+  previous: string,
+  errors: string[],
+  placeNames: string[],
+  maxActivities: number
+): Promise<{ day: GeminiDay; rawText: string; attempts: number }> {
+  const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  let lastErrors = errors;
+  let lastText = previous;
+
+  for (let attempt = 1; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    if (lastText) contents.push({ role: 'model', parts: [{ text: lastText }] });
+    contents.push({
+      role: 'user',
+      parts: [{
+        text:
+          buildRepairPrompt(lastErrors) +
+          ` Reply with the JSON object for day ${dayNumber} only.`,
+      }],
+    });
+
+    const result = await model.generateContent({ contents });
+    lastText = result.response.text();
+    const cleanJson = extractJsonFromString(lastText);
+    const validation = cleanJson
+      ? validateItineraryDay(JSON.parse(cleanJson), placeNames, maxActivities)
+      : { success: false as const, errors: ['Response was not a valid JSON object.'] };
+    if (validation.success) return { day: validation.data, rawText: lastText, attempts: attempt };
+    lastErrors = validation.errors;
+  }
+
+  throw new Error(
+    `Gemini day ${dayNumber} failed validation after ${MAX_GENERATION_ATTEMPTS} attempts: ` +
+    lastErrors.slice(0, MAX_REPORTED_ERRORS).join('; ')
+  );
+}
+
+/**
+ * Streams the itinerary one day at a time. Each day is validated as soon as
+ * its JSON object closes; invalid or missing days are repaired individually
+ * before `onDay` is called, so days are always delivered in order. Those are
+ * previews: once every day is in, the plan goes through `finishItinerary`
+ * like a batch plan, and each day that changed is delivered again under the
+ * same index to replace its preview.
+ */
+export async function generateItineraryStream(
+  geminiKey: string,
+  request: ItineraryRequest,
+  onDay: (day: ItineraryDay, index: number) => void | Promise<void>
+): Promise<GeneratedItinerary> {
+  const { places, frames, cityName, forecast = [] } = request;
+  const model = getItineraryModel(geminiKey, false);
+  const days = frames.length;
+  const maxActivities = maxActivitiesFor(request);
+  const maxFor = (index: number) => maxActivities[index];
+
+  const placeNames = places.map(p => p.name);
+  const prompt =
+    `You are a world-class travel concierge.\n` +
+    `For a ${days}-day trip to ${cityName}, reply with exactly ${days} lines of newline-delimited JSON: ` +
+    `one complete day object per line, in day order, with no surrounding array, Markdown or code fences.\n` +
+    describeRequest(request);
+
+  const received: GeminiDay[] = [];
+  const previews: ItineraryDay[] = [];
+  const rawParts: string[] = [];
+  let attempts = 1;
+
+  const accept = async (day: GeminiDay) => {
+    const index = received.length;
+    received.push(day);
+    previews.push(hydrateDay(day, places, frames[index], forecast[index]));
+    await onDay(previews[index], index);
+  };
+
+  const handleObject = async (text: string) => {
+    if (received.length >= days) return;
+    const index = received.length;
+    let parsed: unknown;
+    try { parsed = JSON.parse(text); } catch { parsed = undefined; }
+    const validation = parsed === undefined
+      ? { success: false as const, errors: ['Day was not a valid JSON object.'] }
+      : validateItineraryDay(parsed, placeNames, maxFor(index));
+    if (validation.success) return accept(validation.data);
+
+    const dayNumber = index + 1;
+    console.warn(`API: Streamed day ${dayNumber} failed validation, repairing:`, validation.errors);
+    const repaired = await repairDay(
+      model, prompt, dayNumber, text, validation.errors, placeNames, maxFor(index)
+    );
+    attempts += repaired.attempts;
+    rawParts.push(repaired.rawText);
+    await accept(repaired.day);
+  };
+
+  const split = createJsonObjectSplitter();
+  const result = await model.generateContentStream({
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+  });
+  for await (const chunk of result.stream) {
+    const text = chunk.text();
+    rawParts.push(text);
+    for (const obj of split(text)) await handleObject(obj);
+  }
+
+  // The model stopped early: ask for each missing day on its own.
+  while (received.length < days) {
+    const dayNumber = received.length + 1;
+    const filled = await repairDay(
+      model, prompt, dayNumber, '', [`day ${dayNumber} of ${days} is missing`], placeNames,
+      maxFor(dayNumber - 1)
+    );
+    attempts += filled.attempts;
+    rawParts.push(filled.rawText);
+    await accept(filled.day);
+  }
+
+  const itinerary = finishItinerary(received, request, maxActivities);
+  for (const [index, day] of itinerary.entries()) {
+    if (JSON.stringify(day) !== JSON.stringify(previews[index])) await onDay(day, index);
+  }
+  return { itinerary, prompt, rawText: rawParts.join(''), attempts };
+}
+
+// --- Editing a single day or activity ---
+
+/** The window a stored day was planned for; entries without one were full days. */
+function frameOf(day: ItineraryDay): DayFrame {
+  return {
+    kind: day.kind ?? 'full',
+    halfDay: day.halfDay ?? false,
+    earliestStart: day.earliestStart ?? DEFAULT_DAY_START,
+    latestEnd: day.latestEnd ?? DEFAULT_DAY_END,
+    ...(day.date ? { date: day.date, weekday: day.weekday } : {}),
+    ...(day.holiday ? { holiday: day.holiday } : {}),
+  };
+}
+
+/** Strips place and schedule fields so a stored activity can be re-hydrated. */
+function toGeminiActivity(act: ItineraryActivity): GeminiActivity {
+  const { title, description, whyVisit, insiderTip, priceRange, audience, placeName, startTime, durationMinutes, setting, cost } = act;
+  return { title, description, whyVisit, insiderTip, priceRange, audience, placeName, startTime, durationMinutes, setting, cost };
+}
+
+function placeNamesIn(days: ItineraryDay[]): Set<string> {
+  return new Set(days.flatMap(d => d.activities.map(a => a.placeName.trim().toLowerCase())));
+}
+
+/** Enriched places the plan does not visit yet: the pool for swaps. */
+export function alternativePlaces(itinerary: ItineraryDay[], places: EnrichedPlace[]): EnrichedPlace[] {
+  const used = placeNamesIn(itinerary);
+  return places.filter(p => !used.has(p.name.trim().toLowerCase()));
+}
+
+/**
+ * Picks the unused place closest to the activity being replaced, so the
+ * swap keeps the day in the same area. Falls back to the first unused place.
+ */
+export function pickAlternativePlace(
+  itinerary: ItineraryDay[],
+  places: EnrichedPlace[],
+  dayIndex: number,
+  activityIndex: number
+): EnrichedPlace | undefined {
+  const unused = alternativePlaces(itinerary, places);
+  // Prefer places open that day; fall back to any unused place.
+  const weekday = itinerary[dayIndex].weekday;
+  const open = weekday === undefined ? unused : unused.filter(p => !isClosedAllDay(p.openingHours, weekday));
+  const candidates = open.length ? open : unused;
+  const from = findPlace(places, itinerary[dayIndex].activities[activityIndex].placeName)?.location;
+  if (!from) return candidates[0];
+  let best = candidates[0];
+  let bestKm = Infinity;
+  for (const place of candidates) {
+    if (!place.location) continue;
+    const km = haversineKm(from, place.location);
+    if (km < bestKm) { bestKm = km; best = place; }
+  }
+  return best;
+}
+
+/**
+ * Re-plans one day from the places no other day uses (its own places
+ * included), keeping the day's time window and the traveller profile.
+ */
+export async function regenerateDay(
+  geminiKey: string,
+  request: ItineraryEditRequest,
+  dayIndex: number
+): Promise<EditedDay> {
+  const { places, itinerary, cityName, profile } = request;
+  const current = itinerary[dayIndex];
+  const frame = frameOf(current);
+  const dayNumber = dayIndex + 1;
+  const usedElsewhere = placeNamesIn(itinerary.filter((_, i) => i !== dayIndex));
+  const unused = places.filter(p => !usedElsewhere.has(p.name.trim().toLowerCase()));
+  const openThatDay = frame.weekday === undefined
+    ? unused
+    : unused.filter(p => !isClosedAllDay(p.openingHours, frame.weekday!));
+  const available = openThatDay.length ? openThatDay : unused;
+  const availableNames = available.map(p => p.name);
+  const maxActivities = activityRangeFor(frame, profile.pace).max;
+
+  const prompt =
+    `You are a world-class travel concierge.\n` +
+    `Re-plan day ${dayNumber} of a ${itinerary.length}-day trip to ${cityName}. ` +
+    `Reply with a single JSON day object only.\n` +
+    `Use ONLY these places: [${availableNames.map(n => `"${n}"`).join(', ')}].\n` +
+    `The current version visits ${current.activities.map(a => `"${a.placeName}"`).join(', ')}; ` +
+    `offer a noticeably different day where the list allows.\n` +
+    describeProfile(profile) +
+    describeAreas(available) +
+    `Time window: ${describeDayFrame(frame, dayNumber, profile.pace)}.\n` +
+    (current.weather
+      ? `Forecast: ${describeForecast(current.weather)}.` +
+        (current.weather.wet ? ' Prefer indoor places.\n' : '\n') +
+        WEATHER_ACTIVITY_FIELDS
+      : '') +
+    DAY_SHAPE;
+
+  const model = getItineraryModel(geminiKey, true);
+  const { data, rawText, attempts } = await generateValidated(
+    model, prompt, `day ${dayNumber}`,
+    json => validateItineraryDay(json, availableNames, maxActivities)
+  );
+  return { day: hydrateDay(data, places, frame, current.weather), prompt, rawText, attempts };
+}
+
+/**
+ * Replaces one activity with a visit to `placeName` (an unused place), then
+ * re-routes and re-times the day. The rest of the day's text is kept.
+ */
+export async function swapActivity(
+  geminiKey: string,
+  request: ItineraryEditRequest,
+  dayIndex: number,
+  activityIndex: number,
+  placeName: string
+): Promise<EditedDay> {
+  const { places, itinerary, cityName, profile } = request;
+  const current = itinerary[dayIndex];
+  const frame = frameOf(current);
+  const replaced = current.activities[activityIndex];
+
+  const prompt =
+    `You are a world-class travel concierge.\n` +
+    `Day ${dayIndex + 1} of a trip to ${cityName} ("${current.title}") runs ${frame.earliestStart}–${frame.latestEnd} and visits: ` +
+    current.activities.map(a => `"${a.placeName}" at ${a.startTime}`).join(', ') + `.\n` +
+    `Replace the visit to "${replaced.placeName}" with a visit to "${placeName}". ` +
+    `Reply with a single JSON activity object only:\n` +
+    `{"title","description","whyVisit","insiderTip","priceRange","audience","placeName","startTime","durationMinutes","cost"}\n` +
+    `Every text field is a non-empty string, "placeName" is exactly "${placeName}", ` +
+    `"startTime" is a 24-hour "HH:MM" time near ${replaced.startTime} and "durationMinutes" an integer.\n` +
+    COST_SHAPE +
+    describeProfile(profile);
+
+  const model = getItineraryModel(geminiKey, true);
+  const { data, rawText, attempts } = await generateValidated(
+    model, prompt, 'replacement activity',
+    json => validateItineraryActivity(json, placeName)
+  );
+
+  const activities = current.activities.map((act, i) =>
+    i === activityIndex ? { ...data, placeName } : toGeminiActivity(act)
+  );
+  // Keep the day photo unless it showed the place that was swapped out.
+  const photoPlace = places.find(p => p.photoUrl && p.photoUrl === current.dayPhotoUrl);
+  const keepsPhoto = !!photoPlace && activities.some(a => a.placeName.toLowerCase() === photoPlace.name.toLowerCase());
+  const day = hydrateDay(
+    {
+      title: current.title,
+      dayPhotoSuggestion: keepsPhoto ? photoPlace.name : placeName,
+      activities,
+      indoorAlternatives: current.indoorAlternatives,
+    },
+    places,
+    frame,
+    current.weather
+  );
+  return { day, prompt, rawText, attempts };
+}
@@ -0,0 +1,161 @@
+// src/lib/itinerarySchema.ts
+import { z } from 'zod';
+import { CostEstimateSchema } from '@/lib/budget';
+
+/* ==============================
+ * Gemini Itinerary Schema
+ * ============================== */
+
+const requiredText = z.string().trim().min(1, 'must be a non-empty string');
+const clockTime = z.string().trim().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'must be a 24-hour "HH:MM" time');
+
+export const GeminiActivitySchema = z.object({
+  title: requiredText,
+  description: requiredText,
+  whyVisit: requiredText,
+  insiderTip: requiredText,
+  priceRange: requiredText,
+  audience: requiredText,
+  placeName: requiredText,
+  startTime: clockTime,
+  durationMinutes: z.number().int().min(15).max(600),
+  // Only asked for when a forecast is known; lets wet-day outdoor visits be moved.
+  setting: z.enum(['indoor', 'outdoor', 'mixed']).optional(),
+  // Optional in the type so stored plans from before costs existed still
+  // re-hydrate; the day and activity validators below require it.
+  cost: CostEstimateSchema.optional(),
+});
+
+export const GeminiDaySchema = z.object({
+  title: requiredText,
+  dayPhotoSuggestion: requiredText,
+  activities: z.array(GeminiActivitySchema).min(1, 'must contain at least one activity'),
+  indoorAlternatives: z.array(requiredText).max(3).optional(),
+});
+
+export type GeminiActivity = z.infer<typeof GeminiActivitySchema>;
+export type GeminiDay = z.infer<typeof GeminiDaySchema>;
+
+function requireCost(act: GeminiActivity, ctx: z.RefinementCtx, path: PropertyKey[]) {
+  if (!act.cost) {
+    ctx.addIssue({ code: 'custom', path: [...path, 'cost'], message: 'must include a "cost" estimate' });
+  }
+}
+
+/**
+ * Builds the strict schema for a single day: every `placeName` must resolve
+ * (case-insensitively) to one of the supplied places, and half days may be
+ * capped with `maxActivities`.
+ */
+export function buildDaySchema(placeNames: string[], maxActivities?: number) {
+  const allowed = new Set(placeNames.map((n) => n.trim().toLowerCase()).filter(Boolean));
+
+  return GeminiDaySchema.superRefine((day, ctx) => {
+    if (maxActivities !== undefined && day.activities.length > maxActivities) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['activities'],
+        message: `must contain at most ${maxActivities} activities for this day`,
+      });
+    }
+    day.activities.forEach((act, actIdx) => {
+      requireCost(act, ctx, ['activities', actIdx]);
+      if (!allowed.has(act.placeName.trim().toLowerCase())) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['activities', actIdx, 'placeName'],
+          message: `"${act.placeName}" is not one of the supplied places`,
+        });
+      }
+    });
+  });
+}
+
+/**
+ * Builds the strict schema for one generation request: one day per entry in
+ * `maxActivities`, each validated by {@link buildDaySchema}.
+ */
+export function buildItinerarySchema(placeNames: string[], maxActivities: number[]) {
+  const days = maxActivities.length;
+
+  return z.object({
+    itinerary: z
+      .array(buildDaySchema(placeNames))
+      .length(days, `must contain exactly ${days} days`)
+      .superRefine((itinerary, ctx) => {
+        itinerary.forEach((day, dayIdx) => {
+          const max = maxActivities[dayIdx];
+          if (max !== undefined && day.activities.length > max) {
+            ctx.addIssue({
+              code: 'custom',
+              path: [dayIdx, 'activities'],
+              message: `must contain at most ${max} activities for this day`,
+            });
+          }
+        });
+      }),
+  });
+}
+
+/* ==============================
+ * Validation
+ * ============================== */
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((acc, seg) => {
+    if (typeof seg === 'number') return `${acc}[${seg}]`;
+    return acc ? `${acc}.${String(seg)}` : String(seg);
+  }, '');
+}
+
+function toErrorLines(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const where = formatIssuePath(issue.path);
+    return where ? `${where}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * Validates parsed Gemini output. Errors are returned as short
+ * `path: message` lines so they can be fed back to the model verbatim.
+ */
+export function validateItinerary(
+  data: unknown,
+  placeNames: string[],
+  maxActivities: number[]
+): ValidationResult<GeminiDay[]> {
+  const parsed = buildItinerarySchema(placeNames, maxActivities).safeParse(data);
+  if (parsed.success) return { success: true, data: parsed.data.itinerary };
+  return { success: false, errors: toErrorLines(parsed.error) };
+}
+
+/** Single-day counterpart of {@link validateItinerary}, used when streaming. */
+export function validateItineraryDay(
+  data: unknown,
+  placeNames: string[],
+  maxActivities?: number
+): ValidationResult<GeminiDay> {
+  const parsed = buildDaySchema(placeNames, maxActivities).safeParse(data);
+  if (parsed.success) return { success: true, data: parsed.data };
+  return { success: false, errors: toErrorLines(parsed.error) };
+}
+
+/** Validates one replacement activity, which must be for `placeName`. */
+export function validateItineraryActivity(
+  data: unknown,
+  placeName: string
+): ValidationResult<GeminiActivity> {
+  const schema = GeminiActivitySchema.superRefine((act, ctx) => {
+    requireCost(act, ctx, []);
+    if (act.placeName.trim().toLowerCase() !== placeName.trim().toLowerCase()) {
+      ctx.addIssue({ code: 'custom', path: ['placeName'], message: `must be "${placeName}"` });
+    }
+  });
+  const parsed = schema.safeParse(data);
+  if (parsed.success) return { success: true, data: parsed.data };
+  return { success: false, errors: toErrorLines(parsed.error) };
+}
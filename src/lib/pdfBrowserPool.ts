@@ -0,0 +1,198 @@
+// src/lib/pdfBrowserPool.ts
+import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
+import { readdirSync } from 'fs';
+import path from 'node:path';
+
+/* ==============================
+ * Pool Settings
+ * ============================== */
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_PAGE_MAX_USES = 20;
+
+/** Positive integer from the environment, or the default (with a warning when malformed). */
+function envCount(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(`PDF: Ignoring ${name}="${raw}"; using ${fallback}`);
+  return fallback;
+}
+
+/** Pages kept warm, which is also the most renders run at once (PDF_POOL_SIZE). */
+export function pdfPoolSize(): number {
+  return envCount('PDF_POOL_SIZE', DEFAULT_POOL_SIZE);
+}
+
+/** Renders a page serves before it is closed for a fresh one (PDF_PAGE_MAX_USES). */
+export function pdfPageMaxUses(): number {
+  return envCount('PDF_PAGE_MAX_USES', DEFAULT_PAGE_MAX_USES);
+}
+
+/* ==============================
+ * State
+ * ============================== */
+
+interface PooledPage {
+  page: Page;
+  uses: number;
+}
+
+export interface PdfPoolMetrics {
+  size: number;
+  maxPageUses: number;
+  launches: number;
+  renders: number;
+  failures: number;
+  averageRenderMs: number;
+  active: number;
+  idle: number;
+  queued: number;
+}
+
+let browser: Browser | null = null;
+let context: BrowserContext | null = null;
+let launching: Promise<BrowserContext> | null = null;
+const idle: PooledPage[] = [];
+const waiting: (() => void)[] = [];
+let active = 0;
+
+const stats = { launches: 0, renders: 0, failures: 0, renderMs: 0 };
+
+/* ==============================
+ * Browser
+ * ============================== */
+
+/** Forgets a browser that has gone away; the next render launches another. */
+function dropBrowser(gone: Browser): void {
+  if (browser !== gone) return;
+  browser = null;
+  context = null;
+  idle.length = 0;
+}
+
+async function launch(): Promise<BrowserContext> {
+  const browsersPath = process.env.PLAYWRIGHT_BROWSERS_PATH || '/ms-playwright';
+  const dir = readdirSync(browsersPath).find(d => d.startsWith('chromium-'))!;
+  const executablePath = path.join(browsersPath, dir, 'chrome-linux', 'chrome');
+  const launched = await chromium.launch({
+    headless: true,
+    executablePath,
+    args: ['--headless=new', '--no-sandbox', '--disable-dev-shm-usage', '--disable-breakpad'],
+  });
+  launched.on('disconnected', () => {
+    if (browser === launched) console.warn('PDF: Chromium disconnected; relaunching on the next render');
+    dropBrowser(launched);
+  });
+  // The guide is model-written text laid out by us: no scripts run, and no
+  // request leaves the page (data: URIs never reach the router).
+  const ctx = await launched.newContext({ javaScriptEnabled: false, offline: true });
+  await ctx.route('**/*', route => route.abort('blockedbyclient'));
+  browser = launched;
+  context = ctx;
+  stats.launches++;
+  console.log(`PDF: Launched Chromium (launch #${stats.launches})`);
+  return ctx;
+}
+
+/** The live context, launching Chromium when there is none or it has died. */
+async function liveContext(): Promise<BrowserContext> {
+  if (browser && context && browser.isConnected()) return context;
+  if (browser) dropBrowser(browser);
+  launching ??= launch().finally(() => { launching = null; });
+  return launching;
+}
+
+/* ==============================
+ * Pages
+ * ============================== */
+
+async function acquire(): Promise<PooledPage> {
+  while (active >= pdfPoolSize()) {
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+  active++;
+  try {
+    const ctx = await liveContext();
+    let pooled = idle.pop();
+    while (pooled && pooled.page.isClosed()) pooled = idle.pop();
+    return pooled ?? { page: await ctx.newPage(), uses: 0 };
+  } catch (err) {
+    release();
+    throw err;
+  }
+}
+
+function release(): void {
+  active--;
+  waiting.shift()?.();
+}
+
+/** Back into the pool, unless it is worn out, broken or from a browser since replaced. */
+async function giveBack(pooled: PooledPage, healthy: boolean): Promise<void> {
+  const reusable = healthy
+    && pooled.uses < pdfPageMaxUses()
+    && !pooled.page.isClosed()
+    && pooled.page.context() === context;
+  if (reusable) {
+    idle.push(pooled);
+  } else {
+    await pooled.page.close().catch(() => { /* Gone with its browser */ });
+  }
+  release();
+}
+
+/**
+ * Runs `render` on a warm page, waiting while every page is busy. A page
+ * that throws is closed rather than reused; if Chromium itself died
+ * mid-render the render gets one more go on a relaunched browser.
+ */
+export async function withPdfPage<T>(render: (page: Page) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const pooled = await acquire().catch(err => {
+      stats.failures++; // Chromium would not launch
+      throw err;
+    });
+    const owner = browser;
+    const started = Date.now();
+    try {
+      pooled.uses++;
+      const result = await render(pooled.page);
+      stats.renders++;
+      stats.renderMs += Date.now() - started;
+      await giveBack(pooled, true);
+      return result;
+    } catch (err) {
+      stats.failures++;
+      await giveBack(pooled, false);
+      const crashed = !owner?.isConnected();
+      if (!crashed || attempt > 1) throw err;
+      console.warn('PDF: Chromium crashed mid-render; retrying on a fresh browser', err);
+      if (owner) dropBrowser(owner);
+    }
+  }
+}
+
+/** Counters since this process started, plus the pool's current occupancy. */
+export function pdfPoolMetrics(): PdfPoolMetrics {
+  return {
+    size: pdfPoolSize(),
+    maxPageUses: pdfPageMaxUses(),
+    launches: stats.launches,
+    renders: stats.renders,
+    failures: stats.failures,
+    averageRenderMs: stats.renders ? Math.round(stats.renderMs / stats.renders) : 0,
+    active,
+    idle: idle.length,
+    queued: waiting.length,
+  };
+}
+
+/** Closes Chromium so a worker can exit; the next render launches it again. */
+export async function closePdfPool(): Promise<void> {
+  const closing = browser;
+  if (!closing) return;
+  dropBrowser(closing);
+  await closing.close();
+}
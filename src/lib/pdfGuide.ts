@@ -0,0 +1,548 @@
+// src/lib/pdfGuide.ts
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { Storage } from '@google-cloud/storage';
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import sharp from 'sharp';
+import { z } from 'zod';
+
+import {
+  EnrichedPlace,
+  ItineraryActivityCache,
+  ItineraryDayCache,
+  PdfJob,
+  PdfJobStage,
+  CityGuide,
+  DreamerRec,
+  getCachedItineraryByKey,
+  recordItineraryPdf,
+} from '@/lib/firestoreCache';
+import { enrichPlaces } from '@/lib/placeEnrichment';
+import { parseTripLegs, planLegs } from '@/lib/tripLegs';
+import { describeTransfer, type CityTransfer } from '@/lib/routing';
+import { addDaysIso, isIsoDate, weekdayName, weekdayOf } from '@/lib/tripShape';
+import {
+  CostEstimateSchema,
+  convertCost,
+  formatCostRange,
+  mainCurrency,
+  sumCosts,
+  type CostEstimate,
+} from '@/lib/budget';
+import { withPdfPage } from '@/lib/pdfBrowserPool';
+import { html, rawHtml } from '@/lib/safeHtml';
+import { pdfLayoutFor, type GuideDayView, type GuideView, type PdfLayout, type PdfTemplate } from '@/lib/pdfTemplates';
+
+/* ============================================================================
+ * CONFIGURATION
+ * ============================================================================ */
+const GEMINI_SECRET = 'projects/845341257082/secrets/gemini-api-key/versions/latest';
+const MAPS_SECRET   = 'projects/934477100130/secrets/places-api-key/versions/latest';
+const BUCKET_NAME   = 'citybreaker-downloads';
+const GEMINI_MODEL  = 'gemini-2.5-flash';
+const MAX_AI_RETRIES = 3;
+
+const COVER_IMAGE_WIDTH     = 1000;
+const ACTIVITY_IMAGE_WIDTH  = 500;
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+/** Printed where a photo could not be fetched; a warm neutral that suits every template. */
+const PLACEHOLDER_BACKGROUND = { r: 231, g: 229, b: 228 };
+
+/** Faces shipped in public/fonts, inlined into every guide so rendering needs no network. */
+const GUIDE_FONTS: { family: string; weight: number; file: string }[] = [
+  { family: 'Roboto',           weight: 400, file: 'Roboto-Regular.ttf' },
+  { family: 'Roboto Serif',     weight: 400, file: 'RobotoSerif-Regular.ttf' },
+  { family: 'Roboto Serif',     weight: 700, file: 'RobotoSerif-Bold.ttf' },
+  { family: 'Roboto Condensed', weight: 700, file: 'Roboto_Condensed-Bold.ttf' },
+];
+const FONT_STACKS = ":root{--serif:'Roboto Serif',Georgia,serif;--sans:'Roboto',Arial,sans-serif;--condensed:'Roboto Condensed','Roboto',sans-serif}";
+
+/* ============================================================================
+ * GLOBAL INIT (CLIENTS, SECRETS & BUNDLED FONTS)
+ * ============================================================================ */
+const storage = new Storage();
+const smClient = new SecretManagerServiceClient();
+let geminiKey: string | null = null;
+let mapsKey: string | null = null;
+let fontCss: Promise<string> | null = null;
+
+/**
+ * @font-face rules for the bundled fonts, read once. A missing file costs
+ * only its face: the stacks in FONT_STACKS fall back to system fonts.
+ */
+function guideFontCss(): Promise<string> {
+  fontCss ??= Promise.all(
+    GUIDE_FONTS.map(async ({ family, weight, file }) => {
+      try {
+        const buf = await fsp.readFile(path.join(process.cwd(), 'public/fonts', file));
+        return `@font-face{font-family:'${family}';font-weight:${weight};font-style:normal;src:url(data:font/ttf;base64,${buf.toString('base64')}) format('truetype')}`;
+      } catch (err) {
+        console.warn(`PDF: Bundled font ${file} is unavailable; falling back to system fonts`, err);
+        return '';
+      }
+    })
+  ).then(faces => `${faces.join('\n')}\n${FONT_STACKS}`);
+  return fontCss;
+}
+
+async function getSecret(name: string): Promise<string> {
+  const [version] = await smClient.accessSecretVersion({ name });
+  const data = version.payload?.data?.toString();
+  if (!data) throw new Error(`Secret ${name} is empty or unreadable.`);
+  return data;
+}
+
+/* ============================================================================
+ * UTILITIES & CACHE
+ * ============================================================================ */
+const secretCache: Record<string, string> = {};
+async function fetchSecretOnce(name: string): Promise<string> {
+  if (!secretCache[name]) secretCache[name] = await getSecret(name);
+  return secretCache[name];
+}
+
+function createFilename(city: string, days: number): string {
+  const safeCity = city.trim().replace(/\W+/g, '_');
+  return `${safeCity}_${days}d_Guide.pdf`;
+}
+
+/** One city's part of the guide; single-city trips have exactly one. */
+export interface PdfSection {
+  city: string;
+  places: { name: string }[];
+  startDay: number;    // trip-wide index of the section's first day
+  tripDays: number;    // days spent in the city, including a travel-only day
+  plannedDays: number; // days with activities
+  transfer?: CityTransfer;
+  travelOnly: boolean;
+  startDate?: string;  // dated trips: date of the section's first day
+  cacheKey?: string;   // stored plan to render
+  shownDays?: ItineraryDayCache[]; // the planned days as the panel showed them
+}
+
+interface RenderedSection extends PdfSection {
+  guide: CityGuide;
+  itinerary: ItineraryDayCache[];
+  dreamers: DreamerRec[];
+  imgs: Map<string, string>;
+}
+
+export type PdfSectionsResult =
+  | { ok: true; sections: PdfSection[] }
+  | { ok: false; error: string };
+
+/** Only what the guide prints is checked; the rest of each day passes through. */
+const ShownActivitySchema = z.looseObject({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  placeName: z.string().optional(),
+});
+const ShownDaysSchema = z.array(z.looseObject({
+  title: z.string().optional(),
+  activities: z.array(ShownActivitySchema).optional(),
+}));
+
+const isCacheKey = (key: unknown) => key === undefined || (typeof key === 'string' && key.length > 0);
+
+export function planSections(payload: PdfJob['requestPayload']): PdfSectionsResult {
+  const { startDate } = payload;
+  if (startDate !== undefined && !isIsoDate(startDate)) {
+    return { ok: false, error: '"startDate" must be a YYYY-MM-DD date.' };
+  }
+  let shown: ItineraryDayCache[] | undefined;
+  if (payload.itinerary !== undefined) {
+    const parsedDays = ShownDaysSchema.safeParse(payload.itinerary);
+    if (!parsedDays.success) return { ok: false, error: '"itinerary" must be the list of days shown in the planner.' };
+    shown = parsedDays.data as ItineraryDayCache[];
+  }
+  const checkLength = (tripDays: number): PdfSectionsResult | null =>
+    shown && shown.length !== tripDays
+      ? { ok: false, error: `"itinerary" has ${shown.length} days but the trip has ${tripDays}.` }
+      : null;
+
+  if (payload.legs === undefined) {
+    const { cityName, places, tripLength, cacheKey } = payload;
+    if (!isCacheKey(cacheKey)) return { ok: false, error: '"cacheKey" must be a non-empty string.' };
+    const mismatch = checkLength(tripLength);
+    if (mismatch) return mismatch;
+    return {
+      ok: true,
+      sections: [{
+        city: cityName,
+        places,
+        startDay: 0,
+        tripDays: tripLength,
+        plannedDays: tripLength,
+        travelOnly: false,
+        startDate,
+        cacheKey,
+        shownDays: shown,
+      }],
+    };
+  }
+  const parsed = parseTripLegs(payload.legs);
+  if (!parsed.ok) return parsed;
+  const planned = planLegs(parsed.legs, { startDate });
+  if (!planned.ok) return planned;
+  const legKeys = payload.legs.map(leg => leg?.cacheKey);
+  if (!legKeys.every(isCacheKey)) return { ok: false, error: 'Each leg\'s "cacheKey" must be a non-empty string.' };
+  const mismatch = checkLength(planned.plans.reduce((sum, p) => sum + p.leg.days, 0));
+  if (mismatch) return mismatch;
+  return {
+    ok: true,
+    sections: planned.plans.map(({ leg, startDay, transfer, travelOnly, shape, startDate: legStart }, i) => {
+      const plannedFrom = startDay + (travelOnly ? 1 : 0);
+      return {
+        city: leg.cityName,
+        places: leg.places,
+        startDay,
+        tripDays: leg.days,
+        plannedDays: shape.days,
+        transfer,
+        travelOnly,
+        startDate: legStart,
+        cacheKey: legKeys[i],
+        shownDays: shown?.slice(plannedFrom, plannedFrom + shape.days),
+      };
+    }),
+  };
+}
+
+/**
+ * Cache keys a render would need but cannot find: sections that name a
+ * stored plan and supply no days of their own.
+ */
+export async function missingPlanKeys(sections: PdfSection[]): Promise<string[]> {
+  const needed = sections.filter(s => s.cacheKey && !s.shownDays).map(s => s.cacheKey!);
+  const found = await Promise.all(needed.map(key => getCachedItineraryByKey(key)));
+  return needed.filter((_, i) => !found[i]);
+}
+
+/** A payload no retry can fix; the job fails at once instead of being requeued. */
+export class PdfPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfPayloadError';
+  }
+}
+
+function parseLlmJson<T>(raw: string): T {
+  const m = raw.match(/{[\s\S]*}/);
+  if (!m) throw new SyntaxError('No JSON object in LLM response');
+  return JSON.parse(m[0]) as T;
+}
+
+/* ============================================================================
+ * CORE HELPERS & GENERATION LOGIC
+ * ============================================================================ */
+const placeholders = new Map<number, Promise<string>>();
+
+/** A plain 3:2 tile at `width`, made once per size. */
+function placeholderImage(width: number): Promise<string> {
+  let tile = placeholders.get(width);
+  if (!tile) {
+    tile = sharp({ create: { width, height: Math.round((width * 2) / 3), channels: 3, background: PLACEHOLDER_BACKGROUND } })
+      .webp({ quality: 60 })
+      .toBuffer()
+      .then(out => `data:image/webp;base64,${out.toString('base64')}`);
+    placeholders.set(width, tile);
+  }
+  return tile;
+}
+
+async function fetchImage(url: string, width: number, quality: number): Promise<string> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const out = await sharp(Buffer.from(await res.arrayBuffer())).resize({ width }).webp({ quality }).toBuffer();
+  return `data:image/webp;base64,${out.toString('base64')}`;
+}
+
+/**
+ * One inlined photo per place. A photo that is missing, slow or broken gets
+ * a placeholder instead, so a guide never fails over its pictures.
+ */
+async function processImages(
+  places: EnrichedPlace[],
+  coverSuggestion: string
+): Promise<Map<string, string>> {
+  let missing = 0;
+  const arr = await Promise.all(
+    places.map(async p => {
+      const isCover = p.name === coverSuggestion;
+      const width = isCover ? COVER_IMAGE_WIDTH : ACTIVITY_IMAGE_WIDTH;
+      let img: string | null = null;
+      if (p.photoUrl) {
+        img = await fetchImage(p.photoUrl, width, isCover ? 80 : 75).catch(err => {
+          console.warn(`PDF: Photo for "${p.name}" unavailable (${err instanceof Error ? err.message : err})`);
+          return null;
+        });
+      }
+      if (!img) missing++;
+      return [p.name, img ?? await placeholderImage(width)] as [string, string];
+    })
+  );
+  if (missing) console.log(`PDF: Using placeholders for ${missing} of ${places.length} photos`);
+  return new Map(arr);
+}
+
+async function generateItineraryJson(
+  places: EnrichedPlace[],
+  days: number,
+  city: string
+): Promise<ItineraryDayCache[]> {
+  for (let i = 0; i < MAX_AI_RETRIES; i++) {
+    try {
+      if (!geminiKey) geminiKey = await fetchSecretOnce(GEMINI_SECRET);
+      const client = new GoogleGenerativeAI(geminiKey);
+      const model = client.getGenerativeModel({ model: GEMINI_MODEL });
+      const list = places.map(p => `"${p.name}"`).join(', ');
+      const prompt =
+        `You are a travel guide API. Your only output is a single JSON object. For a ${days}-day trip to ${city}, generate an itinerary using these places: [${list}]. ` +
+        `Give every activity a "cost" per person: {"min": number, "max": number, "currency": ISO 4217 code of the local currency, "category": "entry"|"food"|"transport"}.`;
+      const res = await model.generateContent(prompt);
+      const txt = await res.response.text();
+      return parseLlmJson<{ itinerary: ItineraryDayCache[] }>(txt).itinerary;
+    } catch (err) {
+      if (i === MAX_AI_RETRIES - 1) throw err;
+    }
+  }
+  throw new Error('Itinerary generation failed');
+}
+
+async function generateCityGuideJson(
+  city: string,
+  places: EnrichedPlace[]
+): Promise<CityGuide> {
+  for (let i = 0; i < MAX_AI_RETRIES; i++) {
+    try {
+      if (!geminiKey) geminiKey = await fetchSecretOnce(GEMINI_SECRET);
+      const client = new GoogleGenerativeAI(geminiKey);
+      const model = client.getGenerativeModel({ model: GEMINI_MODEL });
+      const names = places.map(p => p.name).join(', ');
+      const prompt = `You are a travel guide API. Output a JSON object with key \"guide\" matching CityGuide type for ${city} using [${names}]`;
+      const res = await model.generateContent(prompt);
+      const txt = await res.response.text();
+      return parseLlmJson<{ guide: CityGuide }>(txt).guide;
+    } catch (err) {
+      if (i === MAX_AI_RETRIES - 1) throw err;
+    }
+  }
+  throw new Error('City guide generation failed');
+}
+
+async function generateDreamersJson(city: string): Promise<DreamerRec[]> {
+  for (let i = 0; i < MAX_AI_RETRIES; i++) {
+    try {
+      if (!geminiKey) geminiKey = await fetchSecretOnce(GEMINI_SECRET);
+      const client = new GoogleGenerativeAI(geminiKey);
+      const model = client.getGenerativeModel({ model: GEMINI_MODEL });
+      const prompt = `You are a career advisor API. Output JSON with key \"dreamers\" as DreamerRec[] for ${city}`;
+      const res = await model.generateContent(prompt);
+      const txt = await res.response.text();
+      return parseLlmJson<{ dreamers: DreamerRec[] }>(txt).dreamers;
+    } catch (err) {
+      if (i === MAX_AI_RETRIES - 1) throw err;
+    }
+  }
+  throw new Error('Dreamers generation failed');
+}
+
+/** "Day 3 · Monday 2026-10-19" for dated trips, "Day 3" otherwise. */
+function dayLabel(dayIndex: number, sectionStart: string | undefined, offset: number): string {
+  if (!sectionStart) return `Day ${dayIndex + 1}`;
+  const date = addDaysIso(sectionStart, offset);
+  return `Day ${dayIndex + 1} · ${weekdayName(weekdayOf(date))} ${date}`;
+}
+
+/** The model's cost estimate, if it gave a well-formed one. */
+function costOf(act: { cost?: unknown }): CostEstimate | undefined {
+  const parsed = CostEstimateSchema.safeParse(act.cost);
+  return parsed.success ? parsed.data : undefined;
+}
+
+function costNote(label: string, costs: (CostEstimate | undefined)[], displayCurrency?: string): string | undefined {
+  const currency = displayCurrency || mainCurrency(costs);
+  if (!currency) return undefined;
+  const total = sumCosts(costs, currency);
+  return `${label}: ${formatCostRange(total.min, total.max, total.currency)} per person`;
+}
+
+function activityCost(cost: CostEstimate | undefined, displayCurrency?: string): string | undefined {
+  if (!cost) return undefined;
+  const shown = displayCurrency ? convertCost(cost, displayCurrency) : cost;
+  return `${formatCostRange(shown.min, shown.max, shown.currency)} · ${cost.category}`;
+}
+
+function transferNote(transfer: CityTransfer): string {
+  return `${describeTransfer(transfer)}, leaving ${transfer.departTime} and arriving around ${transfer.arriveTime}`;
+}
+
+function activityTime({ startTime, endTime }: ItineraryActivityCache): string | undefined {
+  if (!startTime) return undefined;
+  return endTime ? `${startTime}–${endTime}` : startTime;
+}
+
+/** Everything the templates print, formatted once whatever the layout. */
+async function buildGuideView(title: string, sections: RenderedSection[], displayCurrency?: string): Promise<GuideView> {
+  const logoBuf = await fsp.readFile(path.join(process.cwd(), 'public/logo/citybreaker.png')).catch(() => null);
+  const [first] = sections;
+  return {
+    title,
+    tagline: first.guide.tagline,
+    logo: logoBuf ? `data:image/png;base64,${logoBuf.toString('base64')}` : '',
+    coverImage: first.imgs.get(first.guide.coverPhotoSuggestion) || Array.from(first.imgs.values())[0] || '',
+    total: costNote('Estimated spend', sections.flatMap(s => s.itinerary.flatMap(d => (d.activities ?? []).map(costOf))), displayCurrency),
+    multiCity: sections.length > 1,
+    cities: sections.map(({ city, guide, itinerary, imgs, transfer, travelOnly, startDay, startDate, dreamers }) => {
+      const days: GuideDayView[] = [];
+      if (transfer && travelOnly) {
+        days.push({
+          label: `${dayLabel(startDay, startDate, 0)}: Travel from ${transfer.fromCity} to ${transfer.toCity}`,
+          transfer: transferNote(transfer),
+          activities: [],
+        });
+      }
+      const offset = travelOnly ? 1 : 0;
+      itinerary.forEach((day, idx) => {
+        const activities = day.activities ?? [];
+        days.push({
+          label: `${dayLabel(startDay + offset + idx, startDate, offset + idx)}: ${day.title}`,
+          transfer: transfer && !travelOnly && idx === 0 ? transferNote(transfer) : undefined,
+          total: costNote('Day total', activities.map(costOf), displayCurrency),
+          activities: activities.map(act => ({
+            title: act.title ?? '',
+            description: act.description ?? '',
+            placeName: act.placeName,
+            time: activityTime(act),
+            cost: activityCost(costOf(act), displayCurrency),
+            image: imgs.get(act.placeName ?? ''),
+          })),
+        });
+      });
+      return { city, tagline: guide.tagline, transfer: transfer && transferNote(transfer), days, dreamers };
+    }),
+  };
+}
+
+/** Nothing but inline styles and inlined images and fonts may load, whatever slips into the markup. */
+const GUIDE_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:; font-src data:";
+
+function buildHtml(view: GuideView, template: PdfTemplate, fonts: string): string {
+  const styles = rawHtml(`${fonts}\n${template.css}`);
+  return html`<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="${GUIDE_CSP}"><title>${view.title}</title><style>${styles}</style></head><body class="${template.id}">${template.render(view)}</body></html>`.value;
+}
+
+async function generatePdf(markup: string, { template, paper, orientation }: PdfLayout): Promise<Buffer> {
+  return withPdfPage(async page => {
+    // Everything is inlined, so there is nothing to wait on beyond the load event.
+    await page.setContent(markup, { waitUntil: 'load', timeout: 60000 });
+    const { margin } = template;
+    return page.pdf({
+      format: paper,
+      landscape: orientation === 'landscape',
+      printBackground: true,
+      margin: { top: margin, right: margin, bottom: margin, left: margin },
+    });
+  });
+}
+
+/* ============================================================================
+ * RENDERING A JOB
+ * ============================================================================ */
+
+/** Told each time a render moves on; `progress` is an overall percentage. */
+export type PdfProgressReporter = (stage: PdfJobStage, progress: number) => void | Promise<void>;
+
+/** Share of the overall percentage spent on the city sections; rendering and uploading follow. */
+const SECTIONS_SHARE = 80;
+const RENDERING_AT   = 80;
+const UPLOADING_AT   = 92;
+/** Where each step starts within one section's share. */
+const SECTION_STEP_AT: Record<'enriching' | 'writing' | 'images', number> = { enriching: 0, writing: 0.15, images: 0.75 };
+
+/** The section's places, plus any its days visit that are not among them. */
+function placeNamesFor(section: PdfSection, days: ItineraryDayCache[] | undefined): string[] {
+  const visited = (days ?? []).flatMap(d => (d.activities ?? []).map(a => a.placeName ?? ''));
+  return Array.from(new Set([...section.places.map(p => p.name), ...visited].filter(Boolean)));
+}
+
+/**
+ * Places for the section's printed days: the stored plan's when it has them,
+ * with only names it lacks (swapped-in places) looked up.
+ */
+async function placesFor(
+  section: PdfSection,
+  days: ItineraryDayCache[] | undefined,
+  storedPlaces: EnrichedPlace[] | undefined
+): Promise<EnrichedPlace[]> {
+  const names = placeNamesFor(section, days);
+  const known = new Set((storedPlaces ?? []).map(p => p.name));
+  const missing = names.filter(name => !known.has(name));
+  const looked = missing.length
+    ? await enrichPlaces(missing, mapsKey, { city: section.city, tier: 'basic' })
+    : [];
+  return [...(storedPlaces ?? []), ...looked];
+}
+
+/**
+ * Generates the guide for `payload`, uploads it under the job's folder and
+ * returns a signed download URL valid for a day. Each section prints the
+ * days the panel showed when it sent them, else its stored plan; only a
+ * section with neither is planned afresh. Every stored plan a section names
+ * gets the PDF's path.
+ * The payload's template decides the layout, and whether photos are fetched.
+ */
+export async function renderPdfGuide(
+  jobId: string,
+  payload: PdfJob['requestPayload'],
+  onProgress: PdfProgressReporter = () => {}
+): Promise<string> {
+  const plan = planSections(payload);
+  if (!plan.ok) throw new PdfPayloadError(plan.error);
+  const layout = pdfLayoutFor(payload);
+  if (!layout.ok) throw new PdfPayloadError(layout.error);
+  const { template } = layout.layout;
+  mapsKey = await fetchSecretOnce(MAPS_SECRET);
+  geminiKey = await fetchSecretOnce(GEMINI_SECRET);
+
+  const rendered: RenderedSection[] = [];
+  const storedKeys: string[] = [];
+  const sectionShare = SECTIONS_SHARE / plan.sections.length;
+  for (const [i, section] of plan.sections.entries()) {
+    const step = (stage: keyof typeof SECTION_STEP_AT) => onProgress(stage, sectionShare * (i + SECTION_STEP_AT[stage]));
+    await step('enriching');
+    // The panel's days are what the user saw (edits included); the stored plan
+    // stands in for them when they are not sent, and supplies its places either way.
+    const stored = section.cacheKey ? await getCachedItineraryByKey(section.cacheKey) : null;
+    if (!section.shownDays && section.cacheKey && !stored) {
+      throw new PdfPayloadError(`Itinerary ${section.cacheKey} is no longer cached.`);
+    }
+    if (section.cacheKey) storedKeys.push(section.cacheKey);
+    const given = section.shownDays ?? stored?.itinerary;
+    const enriched = await placesFor(section, given, stored?.places);
+    await step('writing');
+    const [guide, itinerary, dreamers] = await Promise.all([
+      generateCityGuideJson(section.city, enriched),
+      given ?? generateItineraryJson(enriched, section.plannedDays, section.city),
+      generateDreamersJson(section.city),
+    ]);
+    await step('images');
+    const imgs = template.photos ? await processImages(enriched, guide.coverPhotoSuggestion) : new Map<string, string>();
+    rendered.push({ ...section, guide, itinerary, dreamers, imgs });
+  }
+
+  await onProgress('rendering', RENDERING_AT);
+  const title = rendered.map(s => s.city).join(' → ');
+  const totalDays = rendered.reduce((sum, s) => sum + s.tripDays, 0);
+  const view = await buildGuideView(title, rendered, payload.displayCurrency);
+  const pdfBuffer = await generatePdf(buildHtml(view, template, await guideFontCss()), layout.layout);
+
+  await onProgress('uploading', UPLOADING_AT);
+  const filename = createFilename(title, totalDays);
+  const file = storage.bucket(BUCKET_NAME).file(`jobs/${jobId}/${filename}`);
+  await file.save(pdfBuffer, { contentType: 'application/pdf' });
+  const [url] = await file.getSignedUrl({ action: 'read', expires: Date.now() + 24 * 60 * 60 * 1000 });
+  await Promise.all(storedKeys.map(key => recordItineraryPdf(key, `gs://${BUCKET_NAME}/${file.name}`)));
+  return url;
+}
@@ -0,0 +1,258 @@
+// src/lib/pdfTemplates.ts
+import type { DreamerRec, PdfJob } from '@/lib/firestoreCache';
+import { html, safeImageSrc, safeLinkUrl, type SafeHtml } from '@/lib/safeHtml';
+
+/* ============================================================================
+ * LAYOUT OPTIONS
+ * ============================================================================ */
+export const PDF_TEMPLATE_IDS = ['magazine', 'day-sheet', 'large-print'] as const;
+export type PdfTemplateId = (typeof PDF_TEMPLATE_IDS)[number];
+
+export const PDF_PAPER_SIZES = ['A4', 'Letter'] as const;
+export type PdfPaperSize = (typeof PDF_PAPER_SIZES)[number];
+
+export const PDF_ORIENTATIONS = ['portrait', 'landscape'] as const;
+export type PdfOrientation = (typeof PDF_ORIENTATIONS)[number];
+
+export const DEFAULT_PDF_TEMPLATE: PdfTemplateId = 'magazine';
+
+/* ============================================================================
+ * VIEW MODEL
+ * ============================================================================ */
+// What the templates print, already formatted; pdfGuide builds it from the
+// rendered sections so no template deals with costs, dates or transfers.
+
+export interface GuideActivityView {
+  title: string;
+  description: string;
+  placeName?: string;
+  time?: string;   // "09:30–11:00" when the plan is timed
+  cost?: string;   // "€10–15 · entry"
+  image?: string;  // data URI; only templates with photos get one, and only inlined images print
+}
+
+export interface GuideDayView {
+  label: string;   // "Day 3 · Monday 2026-10-19: Old Town"
+  transfer?: string;
+  total?: string;  // "Day total: €40–60 per person"
+  activities: GuideActivityView[];
+}
+
+export interface GuideCityView {
+  city: string;
+  tagline: string;
+  transfer?: string;
+  days: GuideDayView[];
+  dreamers: DreamerRec[];
+}
+
+export interface GuideView {
+  title: string;
+  tagline: string;
+  logo: string;
+  coverImage: string;
+  total?: string;
+  multiCity: boolean;
+  cities: GuideCityView[];
+}
+
+/* ============================================================================
+ * TEMPLATES
+ * ============================================================================ */
+
+export interface PdfTemplate {
+  id: PdfTemplateId;
+  name: string;
+  description: string;
+  /** Without photos the render skips fetching and resizing images. */
+  photos: boolean;
+  defaultPaper: PdfPaperSize;
+  defaultOrientation: PdfOrientation;
+  /** Page margin passed to Chromium; full-bleed layouts keep it at zero. */
+  margin: string;
+  css: string;
+  /** The document body; fonts and `css` are added around it. Every value is escaped. */
+  render(view: GuideView): SafeHtml;
+}
+
+function dreamersPage({ city, dreamers }: GuideCityView, multiCity: boolean): SafeHtml {
+  if (!dreamers.length) return html``;
+  return html`<section class="page dreamers"><h2>Dreamers${multiCity ? ` · ${city}` : ''}</h2>${dreamers.map(d => {
+    // Model-written links print only when they are plain http(s).
+    const url = safeLinkUrl(d.url);
+    return html`<div class="dreamer"><h3>${d.name}${d.area ? ` · ${d.area}` : ''}</h3><p>${d.note}</p>${url && html`<a href="${url}">${url}</a>`}</div>`;
+  })}</section>`;
+}
+
+const para = (cls: string, text?: string) => text && html`<p class="${cls}">${text}</p>`;
+const img = (src: string | undefined, attrs: { cls?: string; alt?: string } = {}) => {
+  const safe = safeImageSrc(src);
+  return safe && html`<img class="${attrs.cls}" src="${safe}" alt="${attrs.alt ?? ''}">`;
+};
+
+const magazine: PdfTemplate = {
+  id: 'magazine',
+  name: 'Magazine',
+  description: 'Full-bleed cover and a photo for every stop.',
+  photos: true,
+  defaultPaper: 'A4',
+  defaultOrientation: 'portrait',
+  margin: '0',
+  css: `
+body{margin:0;font-family:var(--sans);color:#1c1917;font-size:10.5pt;line-height:1.5}
+.page{break-after:page;padding:18mm 16mm}
+.page:last-child{break-after:auto}
+h1,h2,h3{font-family:var(--serif);margin:0 0 .4em}
+.cover{height:100vh;box-sizing:border-box;padding:0;position:relative;background:#1c1917 center/cover no-repeat;color:#fff}
+.cover .veil{position:absolute;inset:0;padding:22mm 18mm;display:flex;flex-direction:column;justify-content:flex-end;background:linear-gradient(transparent 40%,rgba(0,0,0,.75))}
+.cover .logo{position:absolute;top:16mm;left:18mm;height:14mm}
+.cover h1{font-size:40pt;line-height:1.1}
+.cover p{font-size:14pt;margin:.2em 0}
+.city{display:flex;flex-direction:column;justify-content:center;min-height:60vh}
+.city h2{font-size:34pt}
+.day h2{font-size:20pt;border-bottom:2px solid #d97706;padding-bottom:.2em}
+.cost{color:#b45309;font-weight:600;margin:.2em 0}
+.transfer{font-style:italic;color:#57534e}
+article{display:flex;gap:6mm;margin:6mm 0;break-inside:avoid}
+article img{width:62mm;height:44mm;object-fit:cover;border-radius:3mm;flex:none}
+article h3{font-size:13pt}
+.time{font-size:9pt;letter-spacing:.05em;text-transform:uppercase;color:#78716c;margin:0}
+.dreamer{margin:0 0 5mm;break-inside:avoid}
+.dreamer a{color:#b45309;word-break:break-all}`,
+  render(view) {
+    const cover = safeImageSrc(view.coverImage);
+    const coverPage = html`<section class="page cover"${cover && html` style="background-image:url('${cover}')"`}><div class="veil">${
+      img(view.logo, { cls: 'logo', alt: 'Logo' })
+    }<h1>${view.title}</h1><p>${view.tagline}</p>${para('cost', view.total)}</div></section>`;
+    const cityPages = view.cities.map(city => [
+      view.multiCity && html`<section class="page city"><h2>${city.city}</h2><p>${city.tagline}</p>${para('transfer', city.transfer)}</section>`,
+      city.days.map(day => html`<section class="page day"><h2>${day.label}</h2>${para('transfer', day.transfer)}${para('cost', day.total)}${
+        day.activities.map(act => html`<article>${img(act.image)}<div>${para('time', act.time)}<h3>${act.title}</h3>${para('cost', act.cost)}<p>${act.description}</p></div></article>`)
+      }</section>`),
+    ]);
+    return html`${coverPage}${cityPages}${view.cities.map(c => dreamersPage(c, view.multiCity))}`;
+  },
+};
+
+const daySheet: PdfTemplate = {
+  id: 'day-sheet',
+  name: 'Day sheet',
+  description: 'One compact table per day to print and carry. No photos.',
+  photos: false,
+  defaultPaper: 'A4',
+  defaultOrientation: 'portrait',
+  margin: '12mm',
+  css: `
+body{margin:0;font-family:var(--sans);color:#111;font-size:9.5pt;line-height:1.35}
+h1,h2{font-family:var(--condensed);margin:0 0 .3em}
+h1{font-size:20pt}
+h2{font-size:13pt;margin-top:5mm}
+.head{display:flex;align-items:center;gap:4mm;border-bottom:1.5px solid #111;padding-bottom:2mm;margin-bottom:2mm}
+.head img{height:9mm}
+.day{break-inside:avoid}
+.meta{color:#444;margin:0 0 1.5mm}
+table{width:100%;border-collapse:collapse}
+th,td{border-bottom:.5px solid #bbb;padding:1.2mm 1.5mm;text-align:left;vertical-align:top}
+th{font-size:8pt;text-transform:uppercase;letter-spacing:.05em;color:#555}
+td.time{white-space:nowrap;width:22mm}
+td.cost{white-space:nowrap;width:32mm}
+.dreamers{break-before:page}
+.dreamer h3{font-size:10pt;margin:2mm 0 0}
+.dreamer p{margin:0}
+.dreamer a{color:#111;word-break:break-all}`,
+  render(view) {
+    const header = html`<div class="head">${img(view.logo, { alt: 'Logo' })}<div><h1>${view.title}</h1>${para('meta', view.total)}</div></div>`;
+    const table = (day: GuideDayView) => day.activities.length > 0 && html`<table><thead><tr><th>Time</th><th>Activity</th><th>Place</th><th>Cost</th></tr></thead><tbody>${
+      day.activities.map(act => html`<tr><td class="time">${act.time}</td><td>${act.title}</td><td>${act.placeName}</td><td class="cost">${act.cost}</td></tr>`)
+    }</tbody></table>`;
+    const citySheets = view.cities.map(city => [
+      view.multiCity && html`<h2>${city.city}</h2>${para('meta', city.transfer)}`,
+      city.days.map(day => html`<section class="day"><h2>${day.label}</h2>${para('meta', day.transfer)}${para('meta', day.total)}${table(day)}</section>`),
+    ]);
+    return html`${header}${citySheets}${view.cities.map(c => dreamersPage(c, view.multiCity))}`;
+  },
+};
+
+const largePrint: PdfTemplate = {
+  id: 'large-print',
+  name: 'Large print',
+  description: 'Large, high-contrast text in a single column, without photos.',
+  photos: false,
+  defaultPaper: 'A4',
+  defaultOrientation: 'portrait',
+  margin: '18mm',
+  css: `
+body{margin:0;font-family:var(--sans);color:#000;background:#fff;font-size:18pt;line-height:1.6}
+h1,h2,h3{font-family:var(--sans);font-weight:700;margin:0 0 .4em}
+h1{font-size:32pt}
+h2{font-size:24pt;border-bottom:3px solid #000;padding-bottom:.15em}
+h3{font-size:20pt;margin-top:1em}
+.page{break-after:page}
+.page:last-child{break-after:auto}
+.time,.cost,.transfer{font-weight:700;margin:.2em 0}
+p{margin:.3em 0 .6em}
+.dreamer a{color:#000;text-decoration:underline;word-break:break-all}`,
+  render(view) {
+    const titlePage = html`<section class="page"><h1>${view.title}</h1><p>${view.tagline}</p>${para('cost', view.total)}</section>`;
+    const dayPages = view.cities.map(city => city.days.map((day, i) => html`<section class="page">${
+      view.multiCity && i === 0 && html`<h1>${city.city}</h1>${para('transfer', city.transfer)}`
+    }<h2>${day.label}</h2>${para('transfer', day.transfer)}${para('cost', day.total)}${
+      day.activities.map(act => html`<h3>${act.title}</h3>${para('time', act.time)}${para('cost', act.cost)}<p>${act.description}</p>`)
+    }</section>`));
+    return html`${titlePage}${dayPages}${view.cities.map(c => dreamersPage(c, view.multiCity))}`;
+  },
+};
+
+const TEMPLATES: Record<PdfTemplateId, PdfTemplate> = {
+  magazine,
+  'day-sheet': daySheet,
+  'large-print': largePrint,
+};
+
+/** The public description of each template, for GET /api/pdf-itinerary/templates. */
+export function listPdfTemplates() {
+  return PDF_TEMPLATE_IDS.map(id => {
+    const { name, description, photos, defaultPaper, defaultOrientation } = TEMPLATES[id];
+    return { id, name, description, photos, defaultPaper, defaultOrientation };
+  });
+}
+
+/* ============================================================================
+ * CHOOSING A LAYOUT
+ * ============================================================================ */
+
+export interface PdfLayout {
+  template: PdfTemplate;
+  paper: PdfPaperSize;
+  orientation: PdfOrientation;
+}
+
+export type PdfLayoutResult =
+  | { ok: true; layout: PdfLayout }
+  | { ok: false; error: string };
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+/** The payload's template, paper and orientation; unset ones fall back to the template's defaults. */
+export function pdfLayoutFor(payload: PdfJob['requestPayload']): PdfLayoutResult {
+  const { template = DEFAULT_PDF_TEMPLATE, paper, orientation } = payload;
+  if (!isOneOf(PDF_TEMPLATE_IDS, template)) {
+    return { ok: false, error: `"template" must be one of ${PDF_TEMPLATE_IDS.join(', ')}.` };
+  }
+  if (paper !== undefined && !isOneOf(PDF_PAPER_SIZES, paper)) {
+    return { ok: false, error: `"paper" must be one of ${PDF_PAPER_SIZES.join(', ')}.` };
+  }
+  if (orientation !== undefined && !isOneOf(PDF_ORIENTATIONS, orientation)) {
+    return { ok: false, error: `"orientation" must be one of ${PDF_ORIENTATIONS.join(', ')}.` };
+  }
+  const chosen = TEMPLATES[template];
+  return {
+    ok: true,
+    layout: {
+      template: chosen,
+      paper: paper ?? chosen.defaultPaper,
+      orientation: orientation ?? chosen.defaultOrientation,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+// src/lib/pdfWorker.ts
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+import {
+  PDF_JOB_LEASE_MS,
+  claimNextPdfJob,
+  completePdfJob,
+  failPdfJobAttempt,
+  recoverStuckPdfJobs,
+  renewPdfJobLease,
+  reportPdfJobProgress,
+  type PdfJob,
+} from '@/lib/firestoreCache';
+import { PdfPayloadError, renderPdfGuide } from '@/lib/pdfGuide';
+import { pdfPoolMetrics } from '@/lib/pdfBrowserPool';
+
+/* ==============================
+ * Worker Settings
+ * ============================== */
+
+const POLL_INTERVAL_MS     = 2000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+/** Renew well before the lease lapses, so one slow write does not lose the job. */
+const HEARTBEAT_INTERVAL_MS = PDF_JOB_LEASE_MS / 3;
+
+export interface PdfWorkerOptions {
+  /** Return once no job is due instead of polling for more; retries still in their backoff are left queued. */
+  once?: boolean;
+  /** Stops the worker after the job in hand. */
+  signal?: AbortSignal;
+  pollMs?: number;
+}
+
+/* ==============================
+ * Helpers
+ * ============================== */
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/** Recorded on each job it runs, so a stuck job says which worker held it. */
+export function pdfWorkerId(): string {
+  return `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+}
+
+/* ==============================
+ * Processing
+ * ============================== */
+
+/**
+ * Renders one claimed job, renewing its lease meanwhile. A job whose lease
+ * was lost (recovered by another worker) keeps the other worker's outcome.
+ */
+export async function processPdfJob(jobId: string, job: PdfJob, owner: string): Promise<void> {
+  const attempt = `${jobId} (attempt ${job.attempts ?? 1}/${job.maxAttempts ?? '?'})`;
+  console.log(`PDF: Rendering ${attempt}`);
+  const heartbeat = setInterval(() => {
+    renewPdfJobLease(jobId, owner)
+      .then(held => { if (!held) console.warn(`PDF: Lost the lease on ${jobId}`); })
+      .catch(err => console.error(`PDF: Failed to renew the lease on ${jobId}`, err));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const pdfUrl = await renderPdfGuide(jobId, job.requestPayload, async (stage, progress) => {
+      // Progress is for show; a failed write must not fail the job.
+      await reportPdfJobProgress(jobId, owner, stage, progress)
+        .catch(err => console.error(`PDF: Failed to report progress on ${jobId}`, err));
+    });
+    const saved = await completePdfJob(jobId, owner, pdfUrl);
+    console.log(saved ? `PDF: Completed ${attempt}` : `PDF: Finished ${attempt} after losing its lease; result dropped`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`PDF: ${attempt} failed`, err);
+    await failPdfJobAttempt(jobId, owner, msg, !(err instanceof PdfPayloadError));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claims and renders due jobs one at a time until `signal` aborts (or, with
+ * `once`, the queue has nothing due). Every minute it also takes back jobs
+ * whose worker stopped renewing its lease and logs the browser pool's metrics.
+ */
+export async function runPdfWorker({ once = false, signal, pollMs = POLL_INTERVAL_MS }: PdfWorkerOptions = {}): Promise<void> {
+  const owner = pdfWorkerId();
+  let lastRecovery = 0;
+  while (!signal?.aborted) {
+    try {
+      if (Date.now() - lastRecovery >= RECOVERY_INTERVAL_MS) {
+        lastRecovery = Date.now();
+        const recovered = await recoverStuckPdfJobs();
+        if (recovered) console.log(`PDF: Took back ${recovered} job(s) with an expired lease`);
+        const pool = pdfPoolMetrics();
+        if (pool.renders || pool.failures) console.log('PDF: Browser pool', pool);
+      }
+      const next = await claimNextPdfJob(owner);
+      if (next) {
+        await processPdfJob(next.jobId, next.job, owner);
+        continue;
+      }
+    } catch (err) {
+      console.error('PDF: Worker loop error', err);
+    }
+    if (once) return;
+    await sleep(pollMs, signal);
+  }
+}
@@ -0,0 +1,190 @@
+// src/lib/placeEnrichment.ts
+import {
+  getPlaceEnrichments,
+  upsertPlaceEnrichments,
+  isPlaceFresh,
+  type EnrichedPlace,
+  type OpeningHours,
+  type PlaceEnrichmentDoc,
+  type PlaceEnrichmentWrite,
+} from '@/lib/firestoreCache';
+
+/* ==============================
+ * Places Lookup Settings
+ * ============================== */
+
+const PLACES_SEARCH_TEXT_URL = 'https://places.googleapis.com/v1/places:searchText';
+const PLACES_PHOTO_BASE_URL  = 'https://places.googleapis.com/v1';
+
+const LOOKUP_CONCURRENCY   = 4;
+const MAX_LOOKUP_ATTEMPTS  = 3;
+const RETRY_BASE_DELAY_MS  = 400;
+const LOOKUP_TIMEOUT_MS    = 8000;
+const PHOTO_MAX_HEIGHT_PX  = 800;
+
+/**
+ * How much each lookup asks Places for. `basic` is enough to show and map a
+ * place; `full` adds opening hours for scheduling. A cached entry only
+ * satisfies the tier it was fetched with (or a richer one).
+ */
+export type PlaceFieldTier = 'basic' | 'full';
+
+const BASIC_FIELDS = [
+  'places.id',
+  'places.displayName',
+  'places.websiteUri',
+  'places.googleMapsUri',
+  'places.location',
+  'places.photos',
+];
+
+const FIELD_MASKS: Record<PlaceFieldTier, string> = {
+  basic: BASIC_FIELDS.join(','),
+  full: [...BASIC_FIELDS, 'places.regularOpeningHours'].join(','),
+};
+
+export interface EnrichPlacesOptions {
+  /** Appended to each query ("Louvre in Paris") to pick the right match, and scopes the cache. */
+  city?: string;
+  tier?: PlaceFieldTier;
+}
+
+/* ==============================
+ * Helpers
+ * ============================== */
+
+function toOpeningHours(raw: unknown): OpeningHours | null {
+  const hours = raw as { periods?: OpeningHours['periods']; weekdayDescriptions?: string[] } | undefined;
+  if (!hours?.periods?.length) return null;
+  return {
+    periods: hours.periods.map(({ open, close }) => ({
+      open: { day: open.day, hour: open.hour ?? 0, minute: open.minute ?? 0 },
+      ...(close ? { close: { day: close.day, hour: close.hour ?? 0, minute: close.minute ?? 0 } } : {}),
+    })),
+    weekdayDescriptions: hours.weekdayDescriptions,
+  };
+}
+
+function satisfiesTier(doc: PlaceEnrichmentDoc, tier: PlaceFieldTier): boolean {
+  // Found places fetched without hours (basic tier, or written before hours existed) need one more lookup.
+  return tier === 'basic' || !doc.place.placeId || doc.place.openingHours !== undefined;
+}
+
+/** Runs `task` over `items` with at most `limit` in flight; results keep input order. */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+class RetryableLookupError extends Error {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retries timeouts, network failures, 429s and 5xx responses with jittered
+ * exponential backoff. Other errors (bad key, bad request) fail at once.
+ */
+async function withRetry<T>(label: string, attempt: () => Promise<T>): Promise<T> {
+  for (let i = 1; ; i++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      const retryable = err instanceof RetryableLookupError || err instanceof TypeError || (err as Error)?.name === 'TimeoutError';
+      if (!retryable || i >= MAX_LOOKUP_ATTEMPTS) throw err;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (i - 1) * (0.5 + Math.random());
+      console.warn(`Places: ${label} failed (attempt ${i}), retrying in ${Math.round(delay)}ms:`, (err as Error).message);
+      await sleep(delay);
+    }
+  }
+}
+
+/** One `searchText` lookup; undefined when Places has no match. */
+async function searchPlace(name: string, apiKey: string, city: string | undefined, tier: PlaceFieldTier): Promise<EnrichedPlace | undefined> {
+  const res = await fetch(PLACES_SEARCH_TEXT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': apiKey,
+      'X-Goog-FieldMask': FIELD_MASKS[tier],
+    },
+    body: JSON.stringify({ textQuery: city ? `${name} in ${city}` : name }),
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const message = `${res.status} ${res.statusText}`;
+    throw res.status === 429 || res.status >= 500 ? new RetryableLookupError(message) : new Error(message);
+  }
+  const json = await res.json();
+  const place = json.places?.[0];
+  if (!place) return undefined;
+  const photoName = place.photos?.[0]?.name as string | undefined;
+  return {
+    name: place.displayName?.text || name,
+    placeId: place.id,
+    photoUrl: photoName ? `${PLACES_PHOTO_BASE_URL}/${photoName}/media?key=${apiKey}&maxHeightPx=${PHOTO_MAX_HEIGHT_PX}` : undefined,
+    website: place.websiteUri,
+    googleMapsUrl: place.googleMapsUri,
+    location: place.location,
+    openingHours: tier === 'full' ? toOpeningHours(place.regularOpeningHours) : undefined,
+  };
+}
+
+/* ==============================
+ * Enrichment
+ * ============================== */
+
+/**
+ * Places details for each name, in input order, through the shared Firestore
+ * cache. Lookups run a few at a time with retries; misses are cached only
+ * briefly so a transient failure is not remembered for a year. Without an
+ * API key, uncached names come back as `{ name }`.
+ */
+export async function enrichPlaces(
+  names: string[],
+  apiKey: string | null,
+  { city, tier = 'full' }: EnrichPlacesOptions = {}
+): Promise<EnrichedPlace[]> {
+  const requested = names.map(n => (n || '').trim()).filter(Boolean);
+  const unique = Array.from(new Set(requested));
+
+  const cached = await getPlaceEnrichments(city ?? '', unique);
+  const now = Date.now();
+  const resolved = new Map<string, EnrichedPlace>();
+  const needLookup: string[] = [];
+  for (const name of unique) {
+    const doc = cached.get(name);
+    if (doc && isPlaceFresh(doc, now) && satisfiesTier(doc, tier)) resolved.set(name, doc.place);
+    else needLookup.push(name);
+  }
+
+  if (needLookup.length && apiKey) {
+    const writes = await mapWithConcurrency(needLookup, LOOKUP_CONCURRENCY, async (name): Promise<PlaceEnrichmentWrite | null> => {
+      try {
+        const place = await withRetry(name, () => searchPlace(name, apiKey, city, tier));
+        resolved.set(name, place ?? { name });
+        return place ? { name, place } : { name, place: { name }, miss: true };
+      } catch (err) {
+        console.error('Places lookup failed for', name, err);
+        // A stale hit beats nothing; leave it in the cache for the next try.
+        const stale = cached.get(name);
+        if (stale && !stale.miss) {
+          resolved.set(name, stale.place);
+          return null;
+        }
+        resolved.set(name, { name });
+        return { name, place: { name }, miss: true };
+      }
+    });
+    await upsertPlaceEnrichments(city ?? '', writes.filter((w): w is PlaceEnrichmentWrite => w !== null));
+  }
+
+  return requested.map(name => resolved.get(name) ?? { name });
+}
@@ -0,0 +1,256 @@
+// src/lib/routing.ts
+import type { LatLng } from '@/lib/firestoreCache';
+
+/* ==============================
+ * Walking Estimates
+ * ============================== */
+
+const EARTH_RADIUS_KM = 6371;
+/** Straight-line distance undercounts street routes by roughly this much. */
+const WALKING_DETOUR_FACTOR = 1.3;
+const WALKING_SPEED_KMH = 4.8;
+/** A place must be this much closer to another day's centre before it moves. */
+const REBALANCE_GAIN = 0.6;
+const REBALANCE_PASSES = 5;
+/** Places within this walking distance of each other count as one area. */
+const CLUSTER_RADIUS_KM = 1.5;
+
+export type Locate<T> = (item: T) => LatLng | undefined;
+
+export type TransferMode = 'car' | 'train' | 'flight';
+
+export interface TransferEstimate {
+  mode: TransferMode;
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+/** A journey between two legs of a multi-city trip. */
+export interface CityTransfer extends TransferEstimate {
+  fromCity: string;
+  toCity: string;
+  departTime: string; // HH:MM
+  arriveTime: string; // HH:MM, may be past the day's end for long journeys
+}
+
+export interface DayRouteStats {
+  walkingKm: number;
+  walkingMinutes: number;
+}
+
+function isLatLng(loc: LatLng | undefined): loc is LatLng {
+  return !!loc && Number.isFinite(loc.lat) && Number.isFinite(loc.lng);
+}
+
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+export function walkingKm(a: LatLng, b: LatLng): number {
+  return haversineKm(a, b) * WALKING_DETOUR_FACTOR;
+}
+
+export function walkingMinutesForKm(km: number): number {
+  return Math.round((km / WALKING_SPEED_KMH) * 60);
+}
+
+/** Walking minutes between two stops, or undefined if either has no location. */
+export function legMinutes<T>(from: T, to: T, locate: Locate<T>): number | undefined {
+  const a = locate(from);
+  const b = locate(to);
+  return isLatLng(a) && isLatLng(b) ? walkingMinutesForKm(walkingKm(a, b)) : undefined;
+}
+
+export function routeStats<T>(stops: T[], locate: Locate<T>): DayRouteStats {
+  const located = stops.map(locate).filter(isLatLng);
+  let km = 0;
+  for (let i = 1; i < located.length; i++) km += walkingKm(located[i - 1], located[i]);
+  return {
+    walkingKm: Math.round(km * 10) / 10,
+    walkingMinutes: walkingMinutesForKm(km),
+  };
+}
+
+/* ==============================
+ * Within-Day Ordering
+ * ============================== */
+
+function pathLength(path: LatLng[]): number {
+  let km = 0;
+  for (let i = 1; i < path.length; i++) km += haversineKm(path[i - 1], path[i]);
+  return km;
+}
+
+function nearestNeighbour(points: LatLng[], start: number): number[] {
+  const order = [start];
+  const used = new Set(order);
+  while (order.length < points.length) {
+    const last = points[order[order.length - 1]];
+    let best = -1;
+    let bestKm = Infinity;
+    points.forEach((p, i) => {
+      if (used.has(i)) return;
+      const km = haversineKm(last, p);
+      if (km < bestKm) { bestKm = km; best = i; }
+    });
+    order.push(best);
+    used.add(best);
+  }
+  return order;
+}
+
+/** 2-opt on an open path: reverse segments while that shortens the walk. */
+function twoOpt(points: LatLng[], order: number[]): number[] {
+  let best = order.slice();
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        if (pathLength(candidate.map(k => points[k])) + 1e-9 < pathLength(best.map(k => points[k]))) {
+          best = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Reorders a day's stops to minimise walking: nearest-neighbour from every
+ * possible start, each refined with 2-opt, keeping the shortest. Stops without
+ * a location keep their original relative order after the routed ones.
+ */
+export function orderStops<T>(stops: T[], locate: Locate<T>): T[] {
+  const located = stops.filter(s => isLatLng(locate(s)));
+  const unlocated = stops.filter(s => !isLatLng(locate(s)));
+  if (located.length < 3) return stops.slice(); // any order walks the same
+
+  const points = located.map(s => locate(s) as LatLng);
+  let bestOrder: number[] = points.map((_, i) => i);
+  let bestKm = pathLength(points);
+  for (let start = 0; start < points.length; start++) {
+    const order = twoOpt(points, nearestNeighbour(points, start));
+    const km = pathLength(order.map(i => points[i]));
+    if (km < bestKm - 1e-9) { bestKm = km; bestOrder = order; }
+  }
+  return [...bestOrder.map(i => located[i]), ...unlocated];
+}
+
+/* ==============================
+ * Cross-Day Rebalancing
+ * ============================== */
+
+function centroid(points: LatLng[]): LatLng | undefined {
+  if (!points.length) return undefined;
+  const sum = points.reduce((acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length };
+}
+
+/**
+ * Moves stops to the day whose centre they sit much closer to, so each day
+ * clusters around one area. Days never drop below one stop or exceed their
+ * capacity, which keeps half days short.
+ */
+export function rebalanceDays<T>(days: T[][], locate: Locate<T>, capacities: number[]): T[][] {
+  const result = days.map(d => d.slice());
+  if (result.length < 2) return result;
+
+  for (let pass = 0; pass < REBALANCE_PASSES; pass++) {
+    const centres = result.map(d => centroid(d.map(locate).filter(isLatLng)));
+    let moved = false;
+
+    result.forEach((day, from) => {
+      const home = centres[from];
+      if (!home) return;
+      for (const stop of day.slice()) {
+        const loc = locate(stop);
+        if (!isLatLng(loc) || result[from].length <= 1) continue;
+        const homeKm = haversineKm(loc, home);
+        let target = -1;
+        let targetKm = homeKm * REBALANCE_GAIN;
+        centres.forEach((c, to) => {
+          if (to === from || !c || result[to].length >= (capacities[to] ?? Infinity)) return;
+          const km = haversineKm(loc, c);
+          if (km < targetKm) { targetKm = km; target = to; }
+        });
+        if (target !== -1) {
+          result[from].splice(result[from].indexOf(stop), 1);
+          result[target].push(stop);
+          moved = true;
+        }
+      }
+    });
+
+    if (!moved) break;
+  }
+  return result;
+}
+
+/* ==============================
+ * Area Hints
+ * ============================== */
+
+/**
+ * Greedy single-linkage grouping of places within walking range of each
+ * other. Used to hint the model towards compact days before generation.
+ */
+export function clusterByProximity<T>(items: T[], locate: Locate<T>, radiusKm = CLUSTER_RADIUS_KM): T[][] {
+  const located = items.filter(i => isLatLng(locate(i)));
+  const clusters: T[][] = [];
+  for (const item of located) {
+    const loc = locate(item) as LatLng;
+    const home = clusters.find(c => c.some(o => walkingKm(loc, locate(o) as LatLng) <= radiusKm));
+    if (home) home.push(item);
+    else clusters.push([item]);
+  }
+  return clusters;
+}
+
+/* ==============================
+ * Transfers Between Cities
+ * ============================== */
+
+/**
+ * Rough door-to-door profiles, picked by straight-line distance. `overhead`
+ * covers getting to and through stations or airports.
+ */
+const TRANSFER_PROFILES: { mode: TransferMode; maxKm: number; kmh: number; detour: number; overheadMinutes: number }[] = [
+  { mode: 'car',    maxKm: 80,       kmh: 60,  detour: 1.3,  overheadMinutes: 15 },
+  { mode: 'train',  maxKm: 800,      kmh: 140, detour: 1.2,  overheadMinutes: 45 },
+  { mode: 'flight', maxKm: Infinity, kmh: 750, detour: 1.05, overheadMinutes: 180 },
+];
+
+export function estimateTransfer(from: LatLng, to: LatLng): TransferEstimate {
+  const km = haversineKm(from, to);
+  const profile = TRANSFER_PROFILES.find(p => km <= p.maxKm) ?? TRANSFER_PROFILES[TRANSFER_PROFILES.length - 1];
+  const minutes = (km * profile.detour / profile.kmh) * 60 + profile.overheadMinutes;
+  return {
+    mode: profile.mode,
+    distanceKm: Math.round(km),
+    durationMinutes: Math.round(minutes / 5) * 5,
+  };
+}
+
+const TRANSFER_LABELS: Record<TransferMode, string> = { car: 'Drive', train: 'Train', flight: 'Flight' };
+
+/** "3h 40m", "45m". */
+export function formatTravelTime(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+/** "Train from London · about 2h 50m". */
+export function describeTransfer(transfer: CityTransfer): string {
+  return `${TRANSFER_LABELS[transfer.mode]} from ${transfer.fromCity} · about ${formatTravelTime(transfer.durationMinutes)}`;
+}
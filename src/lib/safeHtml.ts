@@ -0,0 +1,74 @@
+// src/lib/safeHtml.ts
+
+/* ==============================
+ * Escaped HTML
+ * ============================== */
+
+/** Markup that is already safe to insert; only `html` and `rawHtml` make one. */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+  toString(): string {
+    return this.value;
+  }
+}
+
+/** What `html` accepts between its tags; lists are joined, empty values print nothing. */
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | readonly HtmlValue[];
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '`': '&#96;',
+};
+
+/** Safe both as text and inside a quoted attribute. */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"'`]/g, c => HTML_ESCAPES[c]);
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (value === null || value === undefined || value === false || value === true) return '';
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is itself
+ * `html` output, so model text can never open a tag or leave an attribute.
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  let out = strings[0];
+  values.forEach((value, i) => {
+    out += renderValue(value) + strings[i + 1];
+  });
+  return new SafeHtml(out);
+}
+
+/** For markup we wrote ourselves (stylesheets); never for model or user text. */
+export function rawHtml(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+/* ==============================
+ * URLs
+ * ============================== */
+
+/** The URL, normalised, if it is absolute http(s); anything else (javascript:, relative, junk) gives undefined. */
+export function safeLinkUrl(url: unknown): string | undefined {
+  if (typeof url !== 'string') return undefined;
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Inlined images only, so printing a page never fetches anything. */
+export function safeImageSrc(src: unknown): string | undefined {
+  return typeof src === 'string' && /^data:image\/(png|jpeg|webp|gif);base64,[a-z0-9+/=]+$/i.test(src) ? src : undefined;
+}
@@ -0,0 +1,166 @@
+// src/lib/schedule.ts
+import type { OpeningHours } from '@/lib/firestoreCache';
+import { timeToMinutes, minutesToTime, type DayFrame } from '@/lib/tripShape';
+
+/* ==============================
+ * Timed Day Schedule
+ * ============================== */
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_DURATION_MINUTES = 90;
+const MIN_DURATION_MINUTES = 15;
+/** Gap left between consecutive activities for getting from one to the next. */
+export const TRANSFER_BUFFER_MINUTES = 20;
+
+export interface TimedSlot {
+  startTime: string;
+  durationMinutes: number;
+  endTime: string;
+  /** Moved away from the model's proposed start to fit opening hours. */
+  rescheduled?: boolean;
+  /** No slot inside the day window fits the place's hours. */
+  closedAtTime?: boolean;
+  /** Ends after the day's latest end (a departure or half day with too much planned). */
+  pastDayEnd?: boolean;
+}
+
+export interface SchedulableActivity {
+  startTime?: string;
+  durationMinutes?: number;
+}
+
+export interface ScheduleOptions<T> {
+  hoursFor: (activity: T) => OpeningHours | null | undefined;
+  /** Travel time between consecutive stops; the buffer is the minimum gap. */
+  transferMinutes?: (from: T, to: T) => number | undefined;
+  weekday?: number;
+}
+
+type Interval = [number, number];
+
+/**
+ * Open intervals (minutes from midnight) for one weekday. Periods that run
+ * past midnight contribute to both days; a period with no `close` is 24/7.
+ */
+export function openIntervalsForWeekday(hours: OpeningHours, weekday: number): Interval[] {
+  const out: Interval[] = [];
+  for (const { open, close } of hours.periods || []) {
+    if (!close) {
+      out.push([0, MINUTES_PER_DAY]);
+      continue;
+    }
+    const start = open.hour * 60 + open.minute;
+    const end = close.hour * 60 + close.minute;
+    if (open.day === close.day && end > start) {
+      if (open.day === weekday) out.push([start, end]);
+    } else {
+      if (open.day === weekday) out.push([start, MINUTES_PER_DAY]);
+      if (close.day === weekday) out.push([0, end]);
+    }
+  }
+  return out.sort((a, b) => a[0] - b[0]);
+}
+
+function candidateIntervals(hours: OpeningHours, weekday?: number): Interval[] {
+  if (weekday !== undefined) return openIntervalsForWeekday(hours, weekday);
+  // Unknown date: any day the place opens is a plausible fit.
+  return [0, 1, 2, 3, 4, 5, 6].flatMap((d) => openIntervalsForWeekday(hours, d));
+}
+
+function hasKnownHours(hours: OpeningHours | null | undefined): hours is OpeningHours {
+  return !!hours && Array.isArray(hours.periods) && hours.periods.length > 0;
+}
+
+/** The place has known hours and does not open at all on `weekday`. */
+export function isClosedAllDay(hours: OpeningHours | null | undefined, weekday: number): boolean {
+  return hasKnownHours(hours) && openIntervalsForWeekday(hours, weekday).length === 0;
+}
+
+/** True when [start, end) sits inside one open interval, or hours are unknown. */
+export function isOpenDuring(
+  hours: OpeningHours | null | undefined,
+  start: number,
+  end: number,
+  weekday?: number
+): boolean {
+  if (!hasKnownHours(hours)) return true;
+  return candidateIntervals(hours, weekday).some(([s, e]) => start >= s && end <= e);
+}
+
+/** Earliest start in [from, latestStart] at which the place is open for `duration`. */
+function earliestOpenStart(
+  hours: OpeningHours,
+  from: number,
+  latestStart: number,
+  duration: number,
+  weekday?: number
+): number | null {
+  let best: number | null = null;
+  for (const [s, e] of candidateIntervals(hours, weekday)) {
+    const start = Math.max(from, s);
+    if (start <= latestStart && start + duration <= e && (best === null || start < best)) best = start;
+  }
+  return best;
+}
+
+function parseProposedStart(value: string | undefined): number | null {
+  if (!value || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) return null;
+  return timeToMinutes(value);
+}
+
+/**
+ * Lays activities out in their given order inside the day's window. Each
+ * starts at the model's proposed time when that is still free, otherwise
+ * straight after the previous one. Activities that land outside opening hours
+ * are pushed to the next open slot; if none fits, they keep their slot and
+ * are flagged `closedAtTime`. Nothing is dropped: activities that run past
+ * the window's end are flagged `pastDayEnd`.
+ */
+export function scheduleDay<T extends SchedulableActivity>(
+  activities: T[],
+  frame: DayFrame,
+  { hoursFor, transferMinutes, weekday }: ScheduleOptions<T>
+): (T & TimedSlot)[] {
+  const dayStart = timeToMinutes(frame.earliestStart);
+  const dayEnd = timeToMinutes(frame.latestEnd);
+  let cursor = dayStart;
+
+  return activities.map((act, idx) => {
+    if (idx > 0) {
+      const travel = transferMinutes?.(activities[idx - 1], act) ?? 0;
+      cursor += Math.max(TRANSFER_BUFFER_MINUTES, travel);
+    }
+    const hours = hoursFor(act);
+    const duration = Math.max(MIN_DURATION_MINUTES, Math.round(act.durationMinutes ?? DEFAULT_DURATION_MINUTES));
+    const proposed = parseProposedStart(act.startTime);
+    let start = Math.max(cursor, proposed ?? cursor);
+    let rescheduled = false;
+    let closedAtTime = false;
+
+    if (!isOpenDuring(hours, start, start + duration, weekday)) {
+      const latestStart = Math.max(start, dayEnd - duration);
+      const moved = hasKnownHours(hours)
+        ? earliestOpenStart(hours, cursor, latestStart, duration, weekday)
+        : null;
+      if (moved !== null) {
+        start = moved;
+        rescheduled = true;
+      } else {
+        closedAtTime = true;
+      }
+    }
+
+    const end = start + duration;
+    cursor = end;
+    return {
+      ...act,
+      startTime: minutesToTime(start),
+      durationMinutes: duration,
+      endTime: minutesToTime(end),
+      // Explicit undefined clears flags left over from an earlier pass.
+      rescheduled: rescheduled || undefined,
+      closedAtTime: closedAtTime || undefined,
+      pastDayEnd: end > dayEnd || undefined,
+    };
+  });
+}
@@ -0,0 +1,92 @@
+// src/lib/travellerProfile.ts
+import { z } from 'zod';
+
+/* ==============================
+ * Traveller Profile
+ * ============================== */
+
+export const INTEREST_OPTIONS = [
+  'history', 'art', 'architecture', 'food', 'nightlife',
+  'nature', 'shopping', 'music', 'markets', 'gaming',
+] as const;
+
+export const DIETARY_OPTIONS = ['vegetarian', 'vegan', 'halal', 'kosher', 'gluten-free'] as const;
+
+export const BUDGET_TIERS = ['budget', 'moderate', 'luxury'] as const;
+export const PACE_OPTIONS = ['relaxed', 'balanced', 'packed'] as const;
+export const MOBILITY_OPTIONS = ['none', 'limited-walking', 'wheelchair'] as const;
+
+export type Interest = (typeof INTEREST_OPTIONS)[number];
+export type DietaryNeed = (typeof DIETARY_OPTIONS)[number];
+export type BudgetTier = (typeof BUDGET_TIERS)[number];
+export type Pace = (typeof PACE_OPTIONS)[number];
+export type Mobility = (typeof MOBILITY_OPTIONS)[number];
+
+export const TravellerProfileSchema = z.object({
+  interests: z.array(z.enum(INTEREST_OPTIONS)).max(INTEREST_OPTIONS.length).default([]),
+  budget: z.enum(BUDGET_TIERS).default('moderate'),
+  pace: z.enum(PACE_OPTIONS).default('balanced'),
+  dietary: z.array(z.enum(DIETARY_OPTIONS)).max(DIETARY_OPTIONS.length).default([]),
+  mobility: z.enum(MOBILITY_OPTIONS).default('none'),
+  withChildren: z.boolean().default(false),
+});
+
+export type TravellerProfile = z.infer<typeof TravellerProfileSchema>;
+
+export const DEFAULT_TRAVELLER_PROFILE: TravellerProfile = TravellerProfileSchema.parse({});
+
+/** Browser storage key used by the itinerary panel. */
+export const TRAVELLER_PROFILE_STORAGE_KEY = 'citybreaker.travellerProfile.v1';
+
+/** Sorted, de-duplicated copy so equal profiles serialise identically. */
+export function canonicalProfile(profile: TravellerProfile): TravellerProfile {
+  return {
+    ...profile,
+    interests: Array.from(new Set(profile.interests)).sort(),
+    dietary: Array.from(new Set(profile.dietary)).sort(),
+  };
+}
+
+export function isDefaultProfile(profile: TravellerProfile): boolean {
+  return JSON.stringify(canonicalProfile(profile)) === JSON.stringify(DEFAULT_TRAVELLER_PROFILE);
+}
+
+export type TravellerProfileResult =
+  | { ok: true; profile: TravellerProfile }
+  | { ok: false; error: string };
+
+export function parseTravellerProfile(input: unknown): TravellerProfileResult {
+  if (input === undefined || input === null) return { ok: true, profile: DEFAULT_TRAVELLER_PROFILE };
+  const parsed = TravellerProfileSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { ok: false, error: `Invalid "profile.${issue.path.join('.')}": ${issue.message}` };
+  }
+  return { ok: true, profile: canonicalProfile(parsed.data) };
+}
+
+const PACE_HINTS: Record<Pace, string> = {
+  relaxed: 'relaxed pace: fewer stops, longer visits and breaks',
+  balanced: 'balanced pace',
+  packed: 'packed pace: fit in as much as is practical',
+};
+
+const MOBILITY_HINTS: Record<Mobility, string | null> = {
+  none: null,
+  'limited-walking': 'limited walking: keep distances between stops short and avoid steep climbs',
+  wheelchair: 'wheelchair user: only step-free places, short distances and accessible transport',
+};
+
+/** Prompt lines describing the traveller; empty for the default profile. */
+export function describeProfile(profile: TravellerProfile): string {
+  if (isDefaultProfile(profile)) return '';
+  const lines = [
+    profile.interests.length ? `interests: ${profile.interests.join(', ')} — favour these` : null,
+    `budget: ${profile.budget} — match price ranges to it`,
+    PACE_HINTS[profile.pace],
+    profile.dietary.length ? `dietary needs: ${profile.dietary.join(', ')} — every food stop must cater for them` : null,
+    MOBILITY_HINTS[profile.mobility],
+    profile.withChildren ? 'travelling with children: family-friendly choices and timings' : null,
+  ].filter(Boolean);
+  return `Traveller profile:\n${lines.map(l => `- ${l}`).join('\n')}\n`;
+}
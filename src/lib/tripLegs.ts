@@ -0,0 +1,281 @@
+// src/lib/tripLegs.ts
+import type { EnrichedPlace, LatLng } from '@/lib/firestoreCache';
+import {
+  MAX_TRIP_DAYS,
+  MAX_TRIP_LEGS,
+  MIN_HALF_DAY_MINUTES,
+  DEFAULT_DAY_START,
+  DEFAULT_DAY_END,
+  parseTripShape,
+  timeToMinutes,
+  minutesToTime,
+  addDaysIso,
+  todayIsoDate,
+  isIsoDate,
+  weekdayOf,
+  type TripShape,
+} from '@/lib/tripShape';
+import { estimateTransfer, type CityTransfer } from '@/lib/routing';
+import {
+  planCityItinerary,
+  type FullItineraryResponse,
+  type IncomingPlace,
+  type ItineraryDay,
+} from '@/lib/itineraryGenerator';
+import type { TravellerProfile } from '@/lib/travellerProfile';
+import { publicHolidayOn } from '@/lib/holidays';
+
+/* ==============================
+ * Multi-City Trips
+ * ============================== */
+
+export interface TripLeg {
+  cityName: string;
+  places: IncomingPlace[];
+  days: number;
+  location: LatLng;
+  country?: string; // ISO 3166-1 alpha-2, for public holidays
+}
+
+/** How one leg fits into the whole trip. */
+export interface LegPlan {
+  leg: TripLeg;
+  /** Trip-wide index of the leg's first day. */
+  startDay: number;
+  /** Journey from the previous leg; it takes up the morning of the first day. */
+  transfer?: CityTransfer;
+  /** The journey fills the first day, so planning starts on the next one. */
+  travelOnly: boolean;
+  /** Days actually planned in this city (excludes a travel-only day). */
+  shape: TripShape;
+  /** Dated trips only: the date of the leg's first day, travel day included. */
+  startDate?: string;
+}
+
+/** Per-leg summary returned to clients; `cacheKey` lets them edit that leg. */
+export interface LegSummary {
+  city: string;
+  startDay: number;
+  /** Trip-wide index of the first planned (non-travel) day. */
+  plannedFrom: number;
+  days: number;
+  transfer?: CityTransfer;
+  cacheKey: string;
+}
+
+export interface MultiCityItineraryResponse extends FullItineraryResponse {
+  legs: LegSummary[];
+}
+
+export type TripLegsResult =
+  | { ok: true; legs: TripLeg[] }
+  | { ok: false; error: string };
+
+export type LegPlansResult =
+  | { ok: true; plans: LegPlan[] }
+  | { ok: false; error: string };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Normalised ISO country code, or undefined when absent or malformed. */
+export function parseCountryCode(value: unknown): string | undefined {
+  return typeof value === 'string' && /^[A-Za-z]{2}$/.test(value.trim()) ? value.trim().toUpperCase() : undefined;
+}
+
+/** Validates the request's `legs` array. Coordinates are needed to estimate transfers. */
+export function parseTripLegs(input: unknown): TripLegsResult {
+  if (!Array.isArray(input) || input.length < 2) {
+    return { ok: false, error: '"legs" must list at least two cities.' };
+  }
+  if (input.length > MAX_TRIP_LEGS) {
+    return { ok: false, error: `"legs" can list at most ${MAX_TRIP_LEGS} cities.` };
+  }
+
+  const legs: TripLeg[] = [];
+  for (const [i, raw] of input.entries()) {
+    const leg = (raw ?? {}) as Record<string, unknown>;
+    const cityName = typeof leg.cityName === 'string' ? leg.cityName.trim() : '';
+    const places = Array.isArray(leg.places)
+      ? (leg.places as IncomingPlace[]).filter(p => typeof p?.name === 'string' && p.name.trim())
+      : [];
+    if (!cityName) return { ok: false, error: `"legs[${i}].cityName" is required.` };
+    if (!places.length) return { ok: false, error: `"legs[${i}].places" must be a non-empty array.` };
+    if (!Number.isInteger(leg.days) || (leg.days as number) < 1) {
+      return { ok: false, error: `"legs[${i}].days" must be a whole number of at least 1.` };
+    }
+    if (!isFiniteNumber(leg.lat) || !isFiniteNumber(leg.lng)) {
+      return { ok: false, error: `"legs[${i}].lat" and "legs[${i}].lng" are required.` };
+    }
+    legs.push({
+      cityName,
+      places,
+      days: leg.days as number,
+      location: { lat: leg.lat, lng: leg.lng },
+      country: parseCountryCode(leg.country),
+    });
+  }
+
+  const total = legs.reduce((sum, l) => sum + l.days, 0);
+  if (total > MAX_TRIP_DAYS) {
+    return { ok: false, error: `A trip can last at most ${MAX_TRIP_DAYS} days in total.` };
+  }
+  return { ok: true, legs };
+}
+
+/**
+ * Lays the legs end to end. Every leg after the first starts with a transfer
+ * leaving at the start of the day: a short journey turns that day into an
+ * arrival half day, a long one makes it travel-only. The trip's own arrival
+ * and departure times shape the first and last legs; a start date dates
+ * every leg.
+ */
+export function planLegs(
+  legs: TripLeg[],
+  times: { arrivalTime?: string; departureTime?: string; startDate?: string } = {}
+): LegPlansResult {
+  if (times.startDate && !isIsoDate(times.startDate)) {
+    return { ok: false, error: '"startDate" must be a YYYY-MM-DD date.' };
+  }
+  const plans: LegPlan[] = [];
+  let startDay = 0;
+
+  for (const [i, leg] of legs.entries()) {
+    let transfer: CityTransfer | undefined;
+    let travelOnly = false;
+    let arrivalTime = i === 0 ? times.arrivalTime : undefined;
+
+    if (i > 0) {
+      const prev = legs[i - 1];
+      const estimate = estimateTransfer(prev.location, leg.location);
+      const arrive = timeToMinutes(DEFAULT_DAY_START) + estimate.durationMinutes;
+      transfer = {
+        ...estimate,
+        fromCity: prev.cityName,
+        toCity: leg.cityName,
+        departTime: DEFAULT_DAY_START,
+        arriveTime: minutesToTime(arrive),
+      };
+      travelOnly = timeToMinutes(DEFAULT_DAY_END) - arrive < MIN_HALF_DAY_MINUTES;
+      arrivalTime = travelOnly ? undefined : transfer.arriveTime;
+    }
+
+    const plannedDays = leg.days - (travelOnly ? 1 : 0);
+    if (plannedDays < 1) {
+      return {
+        ok: false,
+        error: `The journey to ${leg.cityName} takes the whole day; give it at least 2 days.`,
+      };
+    }
+    const legStart = times.startDate ? addDaysIso(times.startDate, startDay) : undefined;
+    const parsed = parseTripShape({
+      tripLength: plannedDays,
+      arrivalTime,
+      departureTime: i === legs.length - 1 ? times.departureTime : undefined,
+      startDate: legStart && addDaysIso(legStart, travelOnly ? 1 : 0),
+    });
+    if (!parsed.ok) return { ok: false, error: `${leg.cityName}: ${parsed.error}` };
+
+    plans.push({ leg, startDay, transfer, travelOnly, shape: parsed.shape, startDate: legStart });
+    startDay += leg.days;
+  }
+  return { ok: true, plans };
+}
+
+function travelDay(transfer: CityTransfer, date?: string, country?: string): ItineraryDay {
+  const holiday = date ? publicHolidayOn(country, date) : undefined;
+  return {
+    title: `Travel from ${transfer.fromCity} to ${transfer.toCity}`,
+    activities: [],
+    city: transfer.toCity,
+    transfer,
+    travelOnly: true,
+    ...(date ? { date, weekday: weekdayOf(date) } : {}),
+    ...(holiday ? { holiday: holiday.name } : {}),
+  };
+}
+
+/** Trip-wide settings shared by every leg. */
+export interface MultiCityTrip {
+  profile: TravellerProfile;
+}
+
+export interface MultiCityCallbacks {
+  /** A leg is about to be planned; its places are known. */
+  onLeg?: (leg: LegSummary, index: number, places: EnrichedPlace[], cached: boolean) => void | Promise<void>;
+  /** When set, days are streamed (with trip-wide indices) as each leg is generated. */
+  onDay?: (day: ItineraryDay, index: number) => void | Promise<void>;
+}
+
+/**
+ * Plans the legs in order. Each leg is an ordinary single-city plan (and is
+ * cached as one); days are tagged with their city and the first day of each
+ * later leg carries the transfer.
+ */
+export async function planMultiCityItinerary(
+  plans: LegPlan[],
+  { profile }: MultiCityTrip,
+  { onLeg, onDay }: MultiCityCallbacks = {}
+): Promise<MultiCityItineraryResponse> {
+  const itinerary: ItineraryDay[] = [];
+  const places: MultiCityItineraryResponse['places'] = [];
+  const legs: LegSummary[] = [];
+
+  for (const [index, plan] of plans.entries()) {
+    const { leg, startDay, transfer, travelOnly, shape, startDate } = plan;
+    const plannedFrom = startDay + (travelOnly ? 1 : 0);
+    const decorate = (day: ItineraryDay, local: number): ItineraryDay => ({
+      ...day,
+      city: leg.cityName,
+      ...(transfer && !travelOnly && local === 0 ? { transfer } : {}),
+    });
+
+    const request = {
+      cityName: leg.cityName,
+      places: leg.places,
+      shape,
+      profile,
+      location: leg.location,
+      country: leg.country,
+      // Undated trips still need a forecast date for each leg.
+      startDate: addDaysIso(todayIsoDate(), plannedFrom),
+    };
+    const summary: LegSummary = {
+      city: leg.cityName,
+      startDay,
+      plannedFrom,
+      days: leg.days,
+      transfer,
+      cacheKey: '',
+    };
+    const result = await planCityItinerary(request, {
+      onPlaces: async (legPlaces, cached, cacheKey) => {
+        summary.cacheKey = cacheKey;
+        places.push(...legPlaces);
+        await onLeg?.(summary, index, legPlaces, cached);
+        if (transfer && travelOnly) {
+          itinerary[startDay] = travelDay(transfer, startDate, leg.country);
+          await onDay?.(itinerary[startDay], startDay);
+        }
+      },
+      onDay: onDay
+        ? async (day, local) => {
+            itinerary[plannedFrom + local] = decorate(day, local);
+            await onDay(itinerary[plannedFrom + local], plannedFrom + local);
+          }
+        : undefined,
+    });
+    if (!onDay) {
+      result.itinerary.forEach((day, local) => { itinerary[plannedFrom + local] = decorate(day, local); });
+    }
+    legs.push(summary);
+  }
+
+  return {
+    city: plans.map(p => p.leg.cityName).join(' → '),
+    days: itinerary.length,
+    places,
+    itinerary,
+    createdAt: new Date().toISOString(),
+    legs,
+  };
+}
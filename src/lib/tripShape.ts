@@ -0,0 +1,211 @@
+// src/lib/tripShape.ts
+import type { Pace } from '@/lib/travellerProfile';
+
+/* ==============================
+ * Trip Shape: length + half days
+ * ============================== */
+
+export const MIN_TRIP_DAYS = 1;
+export const MAX_TRIP_DAYS = 14;
+/** Cities in one multi-city trip. */
+export const MAX_TRIP_LEGS = 4;
+
+export const DEFAULT_DAY_START = '09:00';
+export const DEFAULT_DAY_END   = '21:00';
+
+/** Arrival/departure times are snapped to this grid so cache keys stay coarse. */
+const TIME_STEP_MINUTES = 30;
+/** Shortest window still worth planning an activity into. */
+export const MIN_HALF_DAY_MINUTES = 120;
+
+const ACTIVITY_RANGES: Record<Pace, { full: ActivityRange; half: ActivityRange }> = {
+  relaxed:  { full: { min: 2, max: 3 }, half: { min: 1, max: 1 } },
+  balanced: { full: { min: 3, max: 4 }, half: { min: 1, max: 2 } },
+  packed:   { full: { min: 4, max: 5 }, half: { min: 2, max: 3 } },
+};
+
+export interface ActivityRange {
+  min: number;
+  max: number;
+}
+
+export type DayKind = 'full' | 'arrival' | 'departure' | 'arrival-departure';
+
+export interface DayFrame {
+  kind: DayKind;
+  halfDay: boolean;
+  earliestStart: string; // HH:MM local time
+  latestEnd: string;     // HH:MM local time
+  /** Dated trips only. */
+  date?: string;         // YYYY-MM-DD
+  weekday?: number;      // 0 = Sunday, as in Places opening hours
+  holiday?: string;      // public holiday name
+}
+
+export interface TripShape {
+  days: number;
+  arrivalTime?: string;   // earliest start on day 1
+  departureTime?: string; // latest end on the final day
+  startDate?: string;     // YYYY-MM-DD of day 1
+}
+
+export interface TripShapeInput {
+  tripLength?: number;
+  arrivalTime?: string | null;
+  departureTime?: string | null;
+  startDate?: string | null;
+}
+
+export type TripShapeResult =
+  | { ok: true; shape: TripShape }
+  | { ok: false; error: string };
+
+export function timeToMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export function minutesToTime(total: number): string {
+  const clamped = Math.min(Math.max(Math.round(total), 0), 24 * 60 - 1);
+  const h = Math.floor(clamped / 60);
+  const m = clamped % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+function parseTime(value: string | null | undefined, round: 'up' | 'down'): string | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const m = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  if (!m) return null;
+  const raw = Number(m[1]) * 60 + Number(m[2]);
+  const snapped = round === 'up'
+    ? Math.ceil(raw / TIME_STEP_MINUTES) * TIME_STEP_MINUTES
+    : Math.floor(raw / TIME_STEP_MINUTES) * TIME_STEP_MINUTES;
+  return minutesToTime(snapped);
+}
+
+/** Today's date as YYYY-MM-DD (UTC), the default first day of a trip. */
+export function todayIsoDate(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/** A real calendar date in YYYY-MM-DD form. */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function weekdayName(weekday: number): string {
+  return WEEKDAY_NAMES[weekday];
+}
+
+/** Shifts a YYYY-MM-DD date by whole days. */
+export function addDaysIso(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function clampTripLength(tripLength: number): number {
+  const n = Number.isFinite(tripLength) ? Math.round(tripLength) : MIN_TRIP_DAYS;
+  return Math.min(Math.max(n, MIN_TRIP_DAYS), MAX_TRIP_DAYS);
+}
+
+/**
+ * Normalises request input into a TripShape. Length is clamped (as before);
+ * malformed or impossible arrival/departure times are rejected.
+ */
+export function parseTripShape(input: TripShapeInput): TripShapeResult {
+  const days = clampTripLength(input.tripLength ?? 3);
+  // Round arrival later and departure earlier so the plan never overruns.
+  const arrivalTime = parseTime(input.arrivalTime, 'up');
+  const departureTime = parseTime(input.departureTime, 'down');
+
+  const startDate = input.startDate || undefined;
+  if (startDate !== undefined && !isIsoDate(startDate)) {
+    return { ok: false, error: '"startDate" must be a YYYY-MM-DD date.' };
+  }
+  if (arrivalTime === null) return { ok: false, error: '"arrivalTime" must be HH:MM.' };
+  if (departureTime === null) return { ok: false, error: '"departureTime" must be HH:MM.' };
+
+  const dayEnd = timeToMinutes(DEFAULT_DAY_END);
+  const dayStart = timeToMinutes(DEFAULT_DAY_START);
+  if (arrivalTime && dayEnd - timeToMinutes(arrivalTime) < MIN_HALF_DAY_MINUTES) {
+    return { ok: false, error: `"arrivalTime" leaves no time to plan before ${DEFAULT_DAY_END}.` };
+  }
+  if (departureTime && timeToMinutes(departureTime) - dayStart < MIN_HALF_DAY_MINUTES) {
+    return { ok: false, error: `"departureTime" leaves no time to plan after ${DEFAULT_DAY_START}.` };
+  }
+  if (days === 1 && arrivalTime && departureTime &&
+      timeToMinutes(departureTime) - timeToMinutes(arrivalTime) < MIN_HALF_DAY_MINUTES) {
+    return { ok: false, error: 'A one-day trip needs at least two hours between arrival and departure.' };
+  }
+
+  return {
+    ok: true,
+    shape: {
+      days,
+      ...(arrivalTime ? { arrivalTime } : {}),
+      ...(departureTime ? { departureTime } : {}),
+      ...(startDate ? { startDate } : {}),
+    },
+  };
+}
+
+/** One frame per day, describing the window activities must fit into. */
+export function buildDayFrames(shape: TripShape): DayFrame[] {
+  return Array.from({ length: shape.days }, (_, i) => {
+    const isArrival = i === 0 && !!shape.arrivalTime;
+    const isDeparture = i === shape.days - 1 && !!shape.departureTime;
+    const kind: DayKind =
+      isArrival && isDeparture ? 'arrival-departure'
+      : isArrival ? 'arrival'
+      : isDeparture ? 'departure'
+      : 'full';
+    const date = shape.startDate ? addDaysIso(shape.startDate, i) : undefined;
+    return {
+      kind,
+      halfDay: kind !== 'full',
+      earliestStart: isArrival ? shape.arrivalTime! : DEFAULT_DAY_START,
+      latestEnd: isDeparture ? shape.departureTime! : DEFAULT_DAY_END,
+      ...(date ? { date, weekday: weekdayOf(date) } : {}),
+    };
+  });
+}
+
+export function activityRangeFor(frame: DayFrame, pace: Pace = 'balanced'): ActivityRange {
+  const ranges = ACTIVITY_RANGES[pace];
+  return frame.halfDay ? ranges.half : ranges.full;
+}
+
+/**
+ * Cache-key fragment for the half-day layout and, for dated trips, the
+ * weekday of day 1 (plans depend on which weekdays places close, not on the
+ * exact date). Empty for undated all-full-day trips so keys for plain N-day
+ * plans are unchanged.
+ */
+export function tripShapeKey(shape: TripShape): string {
+  const parts: string[] = [];
+  if (shape.arrivalTime) parts.push(`arr${shape.arrivalTime.replace(':', '')}`);
+  if (shape.departureTime) parts.push(`dep${shape.departureTime.replace(':', '')}`);
+  if (shape.startDate) parts.push(`wd${weekdayOf(shape.startDate)}`);
+  return parts.join('-');
+}
+
+export function describeDayFrame(frame: DayFrame, dayNumber: number, pace?: Pace): string {
+  const { min, max } = activityRangeFor(frame, pace);
+  const label =
+    frame.kind === 'arrival' ? ' (arrival half day)'
+    : frame.kind === 'departure' ? ' (departure half day)'
+    : frame.kind === 'arrival-departure' ? ' (arrival and departure day)'
+    : '';
+  const date = frame.date && frame.weekday !== undefined ? ` (${weekdayName(frame.weekday)} ${frame.date})` : '';
+  const holiday = frame.holiday ? ` — public holiday (${frame.holiday}), expect closures and crowds` : '';
+  return `Day ${dayNumber}${date}${label}: between ${frame.earliestStart} and ${frame.latestEnd}, ${min}–${max} activities${holiday}`;
+}
@@ -0,0 +1,196 @@
+// src/lib/weather.ts
+import type { LatLng } from '@/lib/firestoreCache';
+import { addDaysIso, todayIsoDate } from '@/lib/tripShape';
+
+/* ==============================
+ * Forecast Types
+ * ============================== */
+
+export type WeatherCondition = 'sunny' | 'cloudy' | 'rain' | 'storm' | 'snow';
+
+export interface DayForecast {
+  date: string; // YYYY-MM-DD
+  condition: WeatherCondition;
+  tempMinC: number;
+  tempMaxC: number;
+  precipitationChance: number; // 0–100
+  /** Bad enough to keep outdoor sightseeing off this day. */
+  wet: boolean;
+}
+
+/** What is stored with a cached itinerary and returned to clients. */
+export interface ForecastSummary {
+  provider: string;
+  location: LatLng;
+  startDate: string;
+  fetchedAt: string;
+  days: DayForecast[];
+}
+
+/**
+ * A source of daily forecasts. Days the provider cannot see (too far ahead)
+ * are simply missing from the result, so it may be shorter than `days`.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  forecast(location: LatLng, startDate: string, days: number): Promise<DayForecast[]>;
+}
+
+const WET_CONDITIONS: WeatherCondition[] = ['rain', 'storm', 'snow'];
+const WET_PRECIPITATION_CHANCE = 60;
+
+const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+const OPEN_METEO_HORIZON_DAYS = 16;
+const FORECAST_TIMEOUT_MS = 5000;
+
+function isWet(condition: WeatherCondition, precipitationChance: number): boolean {
+  return WET_CONDITIONS.includes(condition) || precipitationChance >= WET_PRECIPITATION_CHANCE;
+}
+
+/* ==============================
+ * Providers
+ * ============================== */
+
+/** FNV-1a; stable across runtimes so fixture forecasts never change. */
+function fixtureHash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const FIXTURE_CONDITIONS: WeatherCondition[] = [
+  'sunny', 'sunny', 'sunny', 'cloudy', 'cloudy', 'cloudy', 'rain', 'rain', 'storm', 'snow',
+];
+
+/**
+ * Deterministic offline forecasts: the same place and date always get the
+ * same weather. Temperatures follow latitude and season roughly; snow only
+ * falls when it is cold enough.
+ */
+export const fixtureWeatherProvider: WeatherProvider = {
+  name: 'fixture',
+  async forecast(location, startDate, days) {
+    return Array.from({ length: days }, (_, i) => {
+      const date = addDaysIso(startDate, i);
+      const seed = fixtureHash(`${location.lat.toFixed(1)},${location.lng.toFixed(1)}|${date}`);
+      const month = Number(date.slice(5, 7));
+      // Warmest in July north of the equator, in January south of it.
+      const season = Math.cos(((month - 7) / 12) * 2 * Math.PI) * (location.lat >= 0 ? 1 : -1);
+      const mean = 28 - Math.abs(location.lat) * 0.4 + season * 8;
+      const tempMaxC = Math.round(mean + 4 + (seed % 5) - 2);
+      const tempMinC = tempMaxC - 6 - ((seed >>> 4) % 4);
+      let condition = FIXTURE_CONDITIONS[(seed >>> 8) % FIXTURE_CONDITIONS.length];
+      if (condition === 'snow' && tempMaxC > 3) condition = 'rain';
+      const precipitationChance = WET_CONDITIONS.includes(condition)
+        ? 60 + ((seed >>> 12) % 40)
+        : (seed >>> 12) % 40;
+      return { date, condition, tempMinC, tempMaxC, precipitationChance, wet: isWet(condition, precipitationChance) };
+    });
+  },
+};
+
+function conditionFromWmo(code: number): WeatherCondition {
+  if (code >= 95) return 'storm';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 51) return 'rain';
+  if (code >= 2) return 'cloudy';
+  return 'sunny';
+}
+
+/** Live forecasts from Open-Meteo (no API key), up to 16 days ahead. */
+export const openMeteoWeatherProvider: WeatherProvider = {
+  name: 'open-meteo',
+  async forecast(location, startDate, days) {
+    const lastVisible = addDaysIso(todayIsoDate(), OPEN_METEO_HORIZON_DAYS - 1);
+    const requestedEnd = addDaysIso(startDate, days - 1);
+    const endDate = requestedEnd < lastVisible ? requestedEnd : lastVisible;
+    if (endDate < startDate) return [];
+
+    const params = new URLSearchParams({
+      latitude: String(location.lat),
+      longitude: String(location.lng),
+      daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+      timezone: 'auto',
+      start_date: startDate,
+      end_date: endDate,
+    });
+    const res = await fetch(`${OPEN_METEO_URL}?${params}`, { signal: AbortSignal.timeout(FORECAST_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`Open-Meteo ${res.status} ${res.statusText}`);
+    const json = await res.json();
+    const daily = json.daily ?? {};
+    return (daily.time ?? []).map((date: string, i: number) => {
+      const condition = conditionFromWmo(Number(daily.weather_code?.[i] ?? 0));
+      const precipitationChance = Number(daily.precipitation_probability_max?.[i] ?? 0);
+      return {
+        date,
+        condition,
+        tempMinC: Math.round(Number(daily.temperature_2m_min?.[i] ?? 0)),
+        tempMaxC: Math.round(Number(daily.temperature_2m_max?.[i] ?? 0)),
+        precipitationChance,
+        wet: isWet(condition, precipitationChance),
+      };
+    });
+  },
+};
+
+const PROVIDERS: Record<string, WeatherProvider> = {
+  [fixtureWeatherProvider.name]: fixtureWeatherProvider,
+  [openMeteoWeatherProvider.name]: openMeteoWeatherProvider,
+};
+
+/** Chosen with WEATHER_PROVIDER; defaults to the live provider. */
+export function getWeatherProvider(): WeatherProvider {
+  const name = process.env.WEATHER_PROVIDER || openMeteoWeatherProvider.name;
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown WEATHER_PROVIDER "${name}".`);
+  return provider;
+}
+
+/* ==============================
+ * Trip Forecasts
+ * ============================== */
+
+/**
+ * Forecast for the trip's days, or undefined when it cannot be had. Weather
+ * only refines a plan, so provider failures are logged and planning carries on.
+ */
+export async function forecastTrip(
+  location: LatLng,
+  startDate: string,
+  days: number,
+  provider?: WeatherProvider
+): Promise<ForecastSummary | undefined> {
+  try {
+    // Resolved in here so a misconfigured WEATHER_PROVIDER degrades like an outage.
+    provider ??= getWeatherProvider();
+    const forecast = await provider.forecast(location, startDate, days);
+    if (!forecast.length) return undefined;
+    return { provider: provider.name, location, startDate, fetchedAt: new Date().toISOString(), days: forecast };
+  } catch (err) {
+    console.warn(`Weather: ${provider?.name ?? 'provider'} forecast failed, planning without it:`, err);
+    return undefined;
+  }
+}
+
+/** The forecast for each trip day, by index; undefined where there is none. */
+export function forecastByDay(summary: ForecastSummary | undefined, days: number): (DayForecast | undefined)[] {
+  return Array.from({ length: days }, (_, i) =>
+    summary?.days.find(d => d.date === addDaysIso(summary.startDate, i))
+  );
+}
+
+/**
+ * Cache-key fragment: which days are wet. Plans only depend on that pattern,
+ * so dry (or unknown) weather keeps the existing keys.
+ */
+export function weatherKey(forecast: (DayForecast | undefined)[]): string {
+  if (!forecast.some(d => d?.wet)) return '';
+  return `w${forecast.map(d => (d?.wet ? 1 : 0)).join('')}`;
+}
+
+export function describeForecast(day: DayForecast): string {
+  return `${day.condition}, ${day.tempMinC}–${day.tempMaxC}°C, ${day.precipitationChance}% chance of rain`;
+}